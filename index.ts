@@ -1,5 +1,12 @@
 import { module } from './src/module'
 
 export * from './src/drivers'
+export { createPagesRoutes, scanRoutes } from './src/api'
+
+export type { PagesGeneratedCode, PagesModuleOptions } from './src/module'
+export type { PagesRoutes, PagesRoutesOptions, ScanRoutesOptions } from './src/api'
+export type { PagesDirInfo, PagesDirOptions } from './src/router/fs'
+export type { RouteDefinition, RouteParam } from './src/router/routes'
+export type { ManifestRoute, RoutesManifest } from './src/router/manifest'
 
 export default module
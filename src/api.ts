@@ -0,0 +1,179 @@
+import { type PagesDriver, vueDriver } from './drivers'
+import type { PagesDirInfo, PagesDirOptions } from './router/fs'
+import { getNamedRoutes, namedRoutesToDeclarations, type RouteDefinition, routesToCode } from './router/routes'
+import { createPagesScanner } from './router/scanner'
+import { routesToManifest } from './router/manifest'
+import { navToCode, routesToNav } from './router/nav'
+import type { PagesTarget } from './router/targets'
+
+/**
+ * Options which control how routes are built, shared by the module and the programmatic API
+ */
+export interface PagesRoutesOptions {
+  /** Pages folders to scan in each source folder (defaults to the pages folder and each entrypoint's pages folder) */
+  dirs?: PagesDirOptions[]
+
+  /** Glob patterns (relative to each pages folder) for files to include (defaults to all files) */
+  include?: string[]
+
+  /** Glob patterns (relative to each pages folder) for files to exclude, i.e. tests and stories */
+  exclude?: string[]
+
+  /** Param matchers for file names, i.e. { slug: /[a-z-]+/ } for [id=slug] (int and uuid are built in) */
+  matchers?: Record<string, string | RegExp>
+
+  /** Rename scopes, i.e. { 'side-panel': 'sidepanel' }, or merge them, i.e. { popup: 'main', options: 'main' } */
+  scopes?: Record<string, string>
+
+  /** Include the routes of other scopes, i.e. { popup: 'global' }, or { '*': 'global' } for all scopes */
+  extends?: Record<string, string | string[]>
+
+  /** Include dev-only pages (defaults to true) */
+  devPages?: boolean
+
+  /** Modify a scope's routes before code is generated; return an array to replace them */
+  extendRoutes?: (scope: string, routes: RouteDefinition[]) => void | RouteDefinition[] | Promise<void | RouteDefinition[]>
+}
+
+export interface ScanRoutesOptions {
+  /** Project root; generated code imports page files relative to it, using WXT's @@ alias */
+  root: string
+
+  /** Source folder (defaults to the project root) */
+  srcDir?: string
+
+  /** Layer source folders, whose pages folders are scanned after the source folder's */
+  layers?: string[]
+
+  /** Driver to use (defaults to vue) */
+  driver?: PagesDriver
+
+  /** Route options, as passed to the module */
+  options?: PagesRoutesOptions
+
+  /** Target browser and manifest version, to select page variants (defaults to chrome, MV3) */
+  target?: PagesTarget
+
+  /** Handle errors reading folder meta and redirects files (invalid route options are reported as diagnostics) */
+  onError?: (file: string, error: Error) => void
+
+  /** Modify the list of pages folders, after they are found */
+  onDirs?: (dirs: PagesDirInfo[]) => void | Promise<void>
+
+  /** Modify a scope's routes, before extendRoutes is called */
+  onRoutes?: (scope: string, routes: RouteDefinition[]) => void | Promise<void>
+}
+
+/**
+ * Create an unscanned routes instance; call scan() to build routes, then update() as files change
+ *
+ * This is what the module uses to build routes and generate code, so the results are the same outside WXT
+ */
+export function createPagesRoutes (options: ScanRoutesOptions) {
+  const {
+    root,
+    srcDir = root,
+    layers = [],
+    driver = vueDriver(),
+    options: { dirs, include, exclude, matchers, scopes, extends: extendsMap, devPages, extendRoutes } = {},
+    target = { browser: 'chrome', manifestVersion: 3 },
+    onError,
+    onDirs,
+    onRoutes,
+  } = options
+
+  // scanner, which builds and caches routes for all <src>/pages and <src>/entrypoints/*/pages directories
+  const scanner = createPagesScanner({
+    driver,
+    dirs,
+    filter: { include, exclude },
+    matchers,
+    scopes,
+    extends: extendsMap,
+    target,
+    devPages,
+    sourceDirs: [srcDir, ...layers],
+    onError,
+    onDirs,
+    async onRoutes (scope, routes) {
+      await onRoutes?.(scope, routes)
+      return extendRoutes?.(scope, routes)
+    },
+  })
+
+  const { routesByScope } = scanner
+
+  return {
+    driver,
+    sourceDirs: scanner.sourceDirs,
+    routesByScope,
+
+    get pagesInfos () {
+      return scanner.pagesInfos
+    },
+
+    get diagnostics () {
+      return scanner.diagnostics
+    },
+
+    get devRoutesRemoved () {
+      return scanner.devRoutesRemoved
+    },
+
+    scan: scanner.scan,
+    update: scanner.update,
+
+    /**
+     * Named routes for a scope, with their params
+     */
+    getNamedRoutes (scope: string) {
+      return getNamedRoutes(routesByScope.get(scope) || [])
+    },
+
+    /**
+     * Navigation tree for a scope
+     */
+    getNav (scope: string) {
+      return routesToNav(routesByScope.get(scope) || [], scanner.foldersByScope.get(scope))
+    },
+
+    /**
+     * Route manifest for all scopes
+     */
+    getManifest () {
+      return routesToManifest(routesByScope, root)
+    },
+
+    /**
+     * Code for a scope's routes module
+     */
+    getCode (scope: string) {
+      return routesToCode(routesByScope.get(scope) || [], driver, root)
+    },
+
+    /**
+     * Code for a scope's navigation module
+     */
+    getNavCode (scope: string) {
+      return navToCode(routesToNav(routesByScope.get(scope) || [], scanner.foldersByScope.get(scope)))
+    },
+
+    /**
+     * Type declarations for a scope's routes module
+     */
+    getDeclarations (scope: string) {
+      return driver.declarationsToCode(scope) + namedRoutesToDeclarations(getNamedRoutes(routesByScope.get(scope) || []), root)
+    },
+  }
+}
+
+export type PagesRoutes = ReturnType<typeof createPagesRoutes>
+
+/**
+ * Scan pages folders and build routes for all scopes, i.e. for tests, stories or scripts
+ */
+export async function scanRoutes (options: ScanRoutesOptions): Promise<PagesRoutes> {
+  const routes = createPagesRoutes(options)
+  await routes.scan()
+  return routes
+}
@@ -1,4 +1,5 @@
-import { RouteDefinition } from '../router/routes'
+import { createHash } from 'node:crypto'
+import { getNamedRoutes, NamedRoute, quote, RouteDefinition, RouteParam } from '../router/routes'
 
 export interface PagesDriver {
   /**
@@ -16,11 +17,53 @@ export interface PagesDriver {
    */
   layoutFile?: string
 
+  /**
+   * Emit layouts as parent routes, wrapping the routes which use them (optional, otherwise routes are passed to
+   * routeToCode with their layout file)
+   */
+  layoutRoutes?: boolean
+
   /**
    * Parent file name (e.g., '+index.vue', 'page.tsx') – generates children routes
    */
   parentFile?: string
 
+  /**
+   * Support named views (e.g., 'settings@sidebar.vue') – rendered alongside the page file with the same name (optional)
+   */
+  namedViews?: boolean
+
+  /**
+   * Middleware file name (e.g., '+middleware.ts') – guards all routes in its folder and below
+   */
+  middlewareFile?: string
+
+  /**
+   * Run middleware files (optional, otherwise middleware files are reported as errors)
+   */
+  middleware?: boolean
+
+  /**
+   * Loading boundary file name (e.g., '+loading.vue') – shown while routes in its folder and below load
+   */
+  loadingFile?: string
+
+  /**
+   * Error boundary file name (e.g., '+error.vue') – shown when routes in its folder and below fail to load or render
+   */
+  errorFile?: string
+
+  /**
+   * Data loader file extension (e.g., '.loader.ts') – loads data for the page file with the same name
+   */
+  loaderExtension?: string
+
+  /**
+   * Convert a param to the router's path syntax, throwing an error if it's not supported (optional, defaults to
+   * vue-router syntax, e.g. :id, :tab?, :id(\d+), :slug(.*)*)
+   */
+  paramToPath? (param: RouteParam): string
+
   /**
    * Convert a route definition to code string
    */
@@ -29,12 +72,32 @@ export interface PagesDriver {
   /**
    * Wrap all routes in framework-specific export
    */
-  routesToCode (routeStrings: string[]): string
+  routesToCode (routeStrings: string[], routes?: RouteDefinition[]): string
 
   /**
    * Type declarations for import scopes
    */
   declarationsToCode (name: string): string
+
+  /**
+   * Router factory module code, exporting createRouter(options?) for a scope's routes module (optional)
+   */
+  routerToCode? (routesModule: string, dev?: boolean): string
+
+  /**
+   * Type declarations for the router factory module (optional)
+   */
+  routerDeclarationsToCode? (): string
+
+  /**
+   * Type augmentations for the framework's router, using route names from all scopes (optional)
+   */
+  typesToCode? (routesByScope: Map<string, NamedRoute[]>): string
+
+  /**
+   * HMR code to update the framework's router in place when routes change, in dev (optional, otherwise pages reload)
+   */
+  hmrToCode? (): string
 }
 
 // ---------------------------------------------------------------------------------------------------------------------
@@ -51,18 +114,62 @@ export function vueDriver (): PagesDriver {
     name: 'Vue',
     extensions: ['.vue'],
     layoutFile: '+layout.vue',
+    layoutRoutes: true,
     parentFile: '+index.vue',
+    namedViews: true,
+    middlewareFile: '+middleware.ts',
+    middleware: true,
+    loadingFile: '+loading.vue',
+    errorFile: '+error.vue',
+    loaderExtension: '.loader.ts',
 
     routeToCode (route, depth = 0) {
       const indent = '  '.repeat(depth + 1)
       const childIndent = '  '.repeat(depth + 2)
 
       let code = `${indent}{\n`
-      code += `${childIndent}path: '${route.path}',\n`
-      code += `${childIndent}name: '${route.name}',\n`
-      code += route.layout
-        ? `${childIndent}component: withLayout('${route.file}', '${route.layout}')`
-        : `${childIndent}component: () => import('${route.file}')`
+      code += `${childIndent}path: ${quote(route.path)},\n`
+
+      // layout routes are named with a symbol, so they can be removed on hot update but not navigated to
+      code += route.isLayout
+        ? `${childIndent}name: Symbol(${quote(route.file)})`
+        : `${childIndent}name: ${quote(route.name)}`
+
+      if (!isRedirect(route)) {
+        // layouts render named views of the routes they wrap in named slots
+        const layoutViews = Array.from(new Set((route.children || []).flatMap(child => Object.keys(child.views || {}))))
+        const loader = route.isLayout
+          ? `withLayout(() => import(${quote(route.file)})${layoutViews.length ? `, ${toLiteral(layoutViews)}` : ''})`
+          : `() => import(${quote(route.file)})`
+        const component = route.loading || route.error
+          ? `withBoundaries(${loader}, ${importName(route.loading)}, ${importName(route.error)})`
+          : loader
+        if (route.views) {
+          const views = Object.entries(route.views).map(([name, file]) => `,\n${childIndent}  ${quote(name)}: () => import(${quote(file)})`)
+          code += `,\n${childIndent}components: {\n${childIndent}  default: ${component}${views.join('')}\n${childIndent}}`
+        }
+        else {
+          code += `,\n${childIndent}component: ${component}`
+        }
+      }
+
+      if (route.redirect) {
+        code += hasParams(route.redirect)
+          ? `,\n${childIndent}redirect: to => ({ path: ${pathToCode(route.redirect, 'to.params')}, query: to.query, hash: to.hash })`
+          : `,\n${childIndent}redirect: ${toLiteral(route.redirect)}`
+      }
+
+      if (route.alias) {
+        code += `,\n${childIndent}alias: ${toLiteral(route.alias)}`
+      }
+
+      if (route.middleware) {
+        code += `,\n${childIndent}beforeEnter: ${middlewareToCode(route.middleware, 'lazyGuard')}`
+      }
+
+      if (route.meta) {
+        code += `,\n${childIndent}meta: ${toLiteral(route.meta)}`
+      }
 
       if (route.children && route.children.length > 0) {
         code += `,\n${childIndent}children: [\n`
@@ -74,40 +181,210 @@ export function vueDriver (): PagesDriver {
       return code
     },
 
-    routesToCode (routeStrings) {
-      return `import { h } from 'vue'
+    routesToCode (routeStrings, routes = []) {
+      const loaders = getNamedRoutes(routes)
+        .filter(route => route.loader)
+        .map(route => `  ${quote(route.name)}: () => import(${quote(route.loader!)})`)
 
-function withLayout(componentPath, layoutPath) {
-  return async () => {
-    const [{ default: Layout }, { default: Component }] = await Promise.all([
-      import(/* @vite-ignore */ layoutPath),
-      import(/* @vite-ignore */ componentPath)
-    ])
+      return `import { defineAsyncComponent, h, shallowRef, watch } from 'vue'
+import { RouterView, useRoute } from 'vue-router'
+${boundariesToImports(routes)}
+const loaders = {
+${loaders.join(',\n')}
+}
+
+export function useLoaderData(name) {
+  const route = useRoute()
+  const data = shallowRef()
+  const loading = shallowRef(false)
+  const error = shallowRef()
+
+  // reload when the route changes, ignoring stale results
+  let count = 0
+  watch(() => route.fullPath, async () => {
+    const current = ++count
+    loading.value = true
+    error.value = undefined
+    try {
+      const mod = await loaders[name]()
+      const result = await (mod.loader ?? mod.default)(route)
+      if (current === count) {
+        data.value = result
+      }
+    }
+    catch (err) {
+      if (current === count) {
+        error.value = err
+      }
+    }
+    finally {
+      if (current === count) {
+        loading.value = false
+      }
+    }
+  }, { immediate: true })
+
+  return { data, loading, error }
+}
+
+function lazyGuard(load) {
+  return async (...args) => (await load()).default(...args)
+}
+
+function withBoundaries(loader, loadingComponent, errorComponent) {
+  const Component = defineAsyncComponent({ loader, loadingComponent, errorComponent, delay: 200 })
+  return {
+    render() {
+      return h(Component)
+    }
+  }
+}
 
+function withLayout(load, views = []) {
+  return async () => {
+    const { default: Layout } = await load()
+    const slots = Object.fromEntries(views.map(name => [name, () => h(RouterView, { name })]))
     return {
       render() {
         return h(Layout, null, {
-          default: () => h(Component)
+          default: () => h(RouterView),
+          ...slots
         })
       }
     }
   }
 }
 
-export default [
+const routes = [
 ${routeStrings.join(',\n')}
-]`
+]
+
+// register a router for in-place route updates in dev (a no-op in builds)
+export function handleHotUpdate(router) {
+  if (import.meta.hot) {
+    import.meta.hot.data.router = router
+  }
+}
+
+export default routes`
     },
 
     declarationsToCode() {
       return `
-  import type { RouteRecordRaw } from 'vue-router'
+  import type { Ref } from 'vue'
+  import type { Router, RouteRecordRaw } from 'vue-router'
   const routes: RouteRecordRaw[]
   export default routes
+  export function handleHotUpdate (router: Router): void
+  export function useLoaderData<Name extends keyof RouteLoaderDataMap> (name: Name): {
+    data: Ref<RouteLoaderDataMap[Name] | undefined>
+    loading: Ref<boolean>
+    error: Ref<unknown>
+  }
+`
+    },
+
+    routerToCode (routesModule, dev) {
+      return `import { createRouter as createVueRouter, createMemoryHistory, createWebHashHistory, createWebHistory } from 'vue-router'
+import routes${dev ? ', { handleHotUpdate }' : ''} from '${routesModule}'
+
+const histories = {
+  hash: createWebHashHistory,
+  memory: createMemoryHistory,
+  browser: createWebHistory,
+}
+
+${defaultHistoryToCode()}
+
+export function createRouter(options = {}) {
+  const { history = defaultHistory(), routes: extraRoutes = [], ...rest } = options
+  const router = createVueRouter({
+    history: typeof history === 'string' ? histories[history]() : history,
+    routes: [...routes, ...extraRoutes],
+    scrollBehavior(to, from, savedPosition) {
+      return savedPosition || (to.hash ? { el: to.hash } : { top: 0 })
+    },
+    ...rest,
+  })${dev ? '\n  handleHotUpdate(router)' : ''}
+  return router
+}`
+    },
+
+    routerDeclarationsToCode () {
+      return `
+  import type { Router, RouterHistory, RouterOptions, RouteRecordRaw } from 'vue-router'
+  export interface CreateRouterOptions extends Partial<Omit<RouterOptions, 'history' | 'routes'>> {
+    history?: 'hash' | 'memory' | 'browser' | RouterHistory
+    routes?: RouteRecordRaw[]
+  }
+  export function createRouter (options?: CreateRouterOptions): Router
 `
+    },
+
+    hmrToCode () {
+      return `if (import.meta.hot) {
+  import.meta.hot.accept((mod) => {
+    const router = import.meta.hot.data.router
+    if (!router || !mod) {
+      location.reload()
+      return
+    }
+
+    // replace old routes with new routes
+    for (const route of routes) {
+      if (router.hasRoute(route.name)) {
+        router.removeRoute(route.name)
+      }
+    }
+    for (const route of mod.default) {
+      router.addRoute(route)
+    }
+
+    // re-resolve the current location
+    const { path, query, hash } = router.currentRoute.value
+    router.replace({ path, query, hash, force: true })
+  })
+}`
+    },
+
+    typesToCode (routesByScope) {
+      // group records by name, as the same name may exist in multiple scopes
+      const records = new Map<string, Set<string>>()
+      for (const routes of routesByScope.values()) {
+        for (const route of routes) {
+          const raw = route.params.map(param => `${param.name}${param.optional ? '?' : ''}: ${vueParamType(param, true)}`)
+          const resolved = route.params.map(param => `${param.name}${param.optional ? '?' : ''}: ${vueParamType(param, false)}`)
+          const record = `RouteRecordInfo<${quote(route.name)}, ${quote(route.path)}, ${typeLiteral(raw)}, ${typeLiteral(resolved)}>`
+          if (!records.has(route.name)) {
+            records.set(route.name, new Set())
+          }
+          records.get(route.name)!.add(record)
+        }
+      }
+
+      const entries = Array.from(records.entries())
+        .map(([name, types]) => `      ${quote(name)}: ${Array.from(types).join(' | ')}`)
+        .join('\n')
+
+      return `import type {
+  RouteRecordInfo,
+  ParamValue,
+  ParamValueOneOrMore,
+  ParamValueZeroOrMore,
+  ParamValueZeroOrOne,
+} from 'vue-router'
+
+declare module 'vue-router' {
+  interface TypesConfig {
+    RouteNamedMap: {
+${entries}
     }
   }
 }
+`
+    },
+  }
+}
 
 /**
  * React driver for WXT Pages
@@ -120,18 +397,69 @@ export function reactDriver (): PagesDriver {
     extensions: ['.jsx', '.tsx'],
     layoutFile: '+layout.tsx',
     parentFile: '+layout.tsx',
+    middlewareFile: '+middleware.ts',
+    middleware: true,
+    loadingFile: '+loading.tsx',
+    errorFile: '+error.tsx',
+    loaderExtension: '.loader.ts',
+
+    paramToPath (param) {
+      if (param.pattern) {
+        throw new Error('param matchers are not supported by React Router')
+      }
+      if (param.repeatable) {
+        if (!param.optional) {
+          throw new Error('one-or-more params are not supported by React Router, use [...name] instead')
+        }
+        return '*'
+      }
+      return `:${param.name}${param.optional ? '?' : ''}`
+    },
 
     routeToCode (route, depth = 0) {
+      if (route.alias?.length) {
+        return expandAliases(route).map(route => this.routeToCode(route, depth)).join(',\n')
+      }
+      route = redirectToChild(route)
+
       const indent = '  '.repeat(depth + 1)
       const childIndent = '  '.repeat(depth + 2)
 
       let code = `${indent}{\n`
-      code += `${childIndent}path: '${route.path}',\n`
-      code += `${childIndent}Component: lazy(() => import('${route.file}'))`
+      code += `${childIndent}path: ${quote(route.path)},\n`
+      code += isRedirect(route)
+        ? `${childIndent}loader: ({ params }) => new Response(null, { status: 302, headers: { Location: ${pathToCode(route.redirect!, 'params')} } })`
+        : route.loading
+          ? `${childIndent}Component: withSuspense(lazy(() => import(${quote(route.file)})), ${importName(route.loading)})`
+          : `${childIndent}Component: lazy(() => import(${quote(route.file)}))`
+
+      if (!isRedirect(route) && (route.middleware || route.loader)) {
+        const loader = route.loader
+          ? `lazyLoader(() => import(${quote(route.loader)}))`
+          : ''
+        code += route.middleware
+          ? `,\n${childIndent}loader: withMiddleware(${[middlewareToCode(route.middleware), loader].filter(Boolean).join(', ')})`
+          : `,\n${childIndent}loader: ${loader}`
+      }
+
+      if (route.error) {
+        code += `,\n${childIndent}errorElement: createElement(${importName(route.error)})`
+      }
+
+      if (route.meta) {
+        code += `,\n${childIndent}handle: ${toLiteral(route.meta)}`
+      }
 
       if (route.children && route.children.length > 0) {
+        // matched routes' loaders run in parallel, so each child runs its ancestors' middleware before its own
+        const inherited = route.middleware || []
         code += `,\n${childIndent}children: [\n`
-        code += route.children.map(child => this.routeToCode(child, depth + 2)).join(',\n')
+        code += route.children
+          .map(child => inherited.length
+            ? { ...child, middleware: Array.from(new Set([...inherited, ...child.middleware || []])) }
+            : child)
+          .map(child => this.routeToCode(child, depth + 2))
+          .join(',\n')
         code += `\n${childIndent}]`
       }
 
@@ -139,8 +467,33 @@ export function reactDriver (): PagesDriver {
       return code
     },
 
-    routesToCode (routeStrings) {
-      return `import { lazy } from 'react'
+    routesToCode (routeStrings, routes = []) {
+      return `import { createElement, lazy, Suspense } from 'react'
+${boundariesToImports(routes)}
+function withSuspense(Component, Fallback) {
+  return (props) => createElement(Suspense, { fallback: createElement(Fallback) }, createElement(Component, props))
+}
+
+function lazyLoader(load) {
+  return async (args) => {
+    const mod = await load()
+    return (mod.loader ?? mod.default)(args)
+  }
+}
+
+function withMiddleware(middleware, loader) {
+  return async (args) => {
+    for (const load of middleware) {
+      const result = await (await load()).default(args)
+      if (result !== undefined) {
+        return result
+      }
+    }
+    return loader ? loader(args) : null
+  }
+}
+
+export { useLoaderData } from 'react-router-dom'
 
 export default [
 ${routeStrings.join(',\n')}
@@ -152,8 +505,38 @@ ${routeStrings.join(',\n')}
   import type { RouteObject } from 'react-router-dom'
   const routes: RouteObject[]
   export default routes
+  export function useLoaderData<Name extends keyof RouteLoaderDataMap> (): RouteLoaderDataMap[Name]
 `
-    }
+    },
+
+    routerToCode (routesModule) {
+      return `import { createBrowserRouter, createHashRouter, createMemoryRouter } from 'react-router-dom'
+import routes from '${routesModule}'
+
+const factories = {
+  hash: createHashRouter,
+  memory: createMemoryRouter,
+  browser: createBrowserRouter,
+}
+
+${defaultHistoryToCode()}
+
+export function createRouter(options = {}) {
+  const { history = defaultHistory(), routes: extraRoutes = [], ...rest } = options
+  return factories[history]([...routes, ...extraRoutes], rest)
+}`
+    },
+
+    routerDeclarationsToCode () {
+      return `
+  import type { createMemoryRouter, RouteObject } from 'react-router-dom'
+  export interface CreateRouterOptions extends NonNullable<Parameters<typeof createMemoryRouter>[1]> {
+    history?: 'hash' | 'memory' | 'browser'
+    routes?: RouteObject[]
+  }
+  export function createRouter (options?: CreateRouterOptions): ReturnType<typeof createMemoryRouter>
+`
+    },
 
   }
 }
@@ -169,14 +552,37 @@ export function preactDriver (): PagesDriver {
     extensions: ['.jsx', '.tsx'],
     layoutFile: '+layout.tsx',
     parentFile: '+index.tsx',
+    middlewareFile: '+middleware.ts',
+
+    paramToPath (param) {
+      if (param.pattern) {
+        throw new Error('param matchers are not supported by preact-iso')
+      }
+      const modifier = param.repeatable
+        ? param.optional ? '*' : '+'
+        : param.optional ? '?' : ''
+      return `:${param.name}${modifier}`
+    },
 
     routeToCode (route, depth = 0) {
+      if (route.alias?.length) {
+        return expandAliases(route).map(route => this.routeToCode(route, depth)).join(',\n')
+      }
+      route = redirectToChild(route)
+
       const indent = '  '.repeat(depth + 1)
       const childIndent = '  '.repeat(depth + 2)
 
       let code = `${indent}{\n`
-      code += `${childIndent}path: '${route.path}',\n`
-      code += `${childIndent}component: lazy(() => import('${route.file}'))`
+      code += `${childIndent}path: ${quote(route.path)},\n`
+      code += isRedirect(route)
+        ? `${childIndent}redirect: ${toLiteral(route.redirect)}`
+        : `${childIndent}component: lazy(() => import(${quote(route.file)}))`
+
+
+      if (route.meta) {
+        code += `,\n${childIndent}meta: ${toLiteral(route.meta)}`
+      }
 
       if (route.children && route.children.length > 0) {
         code += `,\n${childIndent}children: [\n`
@@ -212,16 +618,52 @@ export function angularDriver (): PagesDriver {
     extensions: ['.component.ts'],
     layoutFile: 'layout.component.ts',
     parentFile: 'index.component.ts',
+    namedViews: true,
+    middlewareFile: 'middleware.guard.ts',
+    middleware: true,
+
+    paramToPath (param) {
+      if (param.pattern) {
+        throw new Error('param matchers are not supported by the Angular router')
+      }
+      if (param.repeatable) {
+        if (!param.optional) {
+          throw new Error('one-or-more params are not supported by the Angular router, use [...name] instead')
+        }
+        return '**'
+      }
+      if (param.optional) {
+        throw new Error('optional params are not supported by the Angular router')
+      }
+      return `:${param.name}`
+    },
 
     routeToCode (route, depth = 0) {
+      if (route.alias?.length) {
+        return expandAliases(route).map(route => this.routeToCode(route, depth)).join(',\n')
+      }
+      route = redirectToChild(route)
+
       const indent = '  '.repeat(depth + 1)
       const childIndent = '  '.repeat(depth + 2)
 
       let code = `${indent}{\n`
-      code += `${childIndent}path: '${route.path}',\n`
-      code += `${childIndent}loadComponent: () => import('${route.file}').then(m => m.${pascalCase(route.name)}Component)`
+      code += `${childIndent}path: ${quote(route.path)},\n`
+      code += isRedirect(route)
+        ? `${childIndent}redirectTo: ${toLiteral(route.redirect)},\n${childIndent}pathMatch: 'full'`
+        : route.views
+          ? `${childIndent}children: [\n${angularViewsToCode(route, this, depth + 2)}\n${childIndent}]`
+          : `${childIndent}loadComponent: () => import(${quote(route.file)}).then(m => m.${pascalCase(route.baseName ?? route.name)}Component)`
+
+      if (route.middleware && !isRedirect(route)) {
+        code += `,\n${childIndent}canActivate: ${middlewareToCode(route.middleware, 'lazyGuard')}`
+      }
 
-      if (route.children && route.children.length > 0) {
+      if (route.meta) {
+        code += `,\n${childIndent}data: ${toLiteral(route.meta)}`
+      }
+
+      if (route.children && route.children.length > 0 && !route.views) {
         code += `,\n${childIndent}children: [\n`
         code += route.children.map(child => this.routeToCode(child, depth + 2)).join(',\n')
         code += `\n${childIndent}]`
@@ -232,9 +674,16 @@ export function angularDriver (): PagesDriver {
     },
 
     routesToCode (routeStrings) {
-      return `import { Routes } from '@angular/router'
+      return `import { EnvironmentInjector, inject, runInInjectionContext } from '@angular/core'
+
+function lazyGuard(load) {
+  return (...args) => {
+    const injector = inject(EnvironmentInjector)
+    return load().then(m => runInInjectionContext(injector, () => m.default(...args)))
+  }
+}
 
-export const routes: Routes = [
+export const routes = [
 ${routeStrings.join(',\n')}
 ]`
     },
@@ -254,14 +703,54 @@ export function solidDriver (): PagesDriver {
     extensions: ['.jsx', '.tsx'],
     layoutFile: '+layout.tsx',
     parentFile: '+index.tsx',
+    middlewareFile: '+middleware.ts',
+    loadingFile: '+loading.tsx',
+    errorFile: '+error.tsx',
+    loaderExtension: '.loader.ts',
+
+    paramToPath (param) {
+      // matchers are applied using matchFilters
+      if (param.repeatable) {
+        if (!param.optional) {
+          throw new Error('one-or-more params are not supported by Solid Router, use [...name] instead')
+        }
+        return `*${param.name}`
+      }
+      return `:${param.name}${param.optional ? '?' : ''}`
+    },
 
     routeToCode (route, depth = 0) {
+      route = redirectToChild(route)
+
       const indent = '  '.repeat(depth + 1)
       const childIndent = '  '.repeat(depth + 2)
 
       let code = `${indent}{\n`
-      code += `${childIndent}path: '${route.path}',\n`
-      code += `${childIndent}component: lazy(() => import('${route.file}'))`
+      code += route.alias?.length
+        ? `${childIndent}path: ${toLiteral([route.path, ...route.alias])},\n`
+        : `${childIndent}path: ${quote(route.path)},\n`
+      code += isRedirect(route)
+        ? `${childIndent}component: () => Navigate({ href: ${pathToCode(route.redirect!, 'useParams()')} })`
+        : route.loading || route.error
+          ? `${childIndent}component: withBoundaries(lazy(() => import(${quote(route.file)})), ${importName(route.loading)}, ${importName(route.error)})`
+          : `${childIndent}component: lazy(() => import(${quote(route.file)}))`
+
+      // only params in this route's own path segment
+      const filters = (route.params || [])
+        .filter(param => param.pattern && new RegExp(`[:*]${param.name}\\b`).test(route.path))
+        .map(param => `${param.name}: new RegExp(${quote(`^(?:${param.pattern})$`)})`)
+      if (filters.length) {
+        code += `,\n${childIndent}matchFilters: { ${filters.join(', ')} }`
+      }
+
+      if (route.loader) {
+        code += `,\n${childIndent}load: lazyLoader(() => import(${quote(route.loader)}))`
+      }
+
+
+      if (route.meta) {
+        code += `,\n${childIndent}info: ${toLiteral(route.meta)}`
+      }
 
       if (route.children && route.children.length > 0) {
         code += `,\n${childIndent}children: [\n`
@@ -273,8 +762,37 @@ export function solidDriver (): PagesDriver {
       return code
     },
 
-    routesToCode (routeStrings) {
-      return `import { lazy } from 'solid-js'
+    routesToCode (routeStrings, routes = []) {
+      return `import { createComponent, ErrorBoundary, lazy, Suspense } from 'solid-js'
+import { Navigate, useParams } from '@solidjs/router'
+${boundariesToImports(routes)}
+function lazyLoader(load) {
+  return async (args) => {
+    const mod = await load()
+    return (mod.loader ?? mod.default)(args)
+  }
+}
+
+function withBoundaries(Component, Loading, Error) {
+  return (props) => {
+    let content = () => createComponent(Component, props)
+    if (Loading) {
+      const children = content
+      content = () => createComponent(Suspense, {
+        get fallback() { return createComponent(Loading, {}) },
+        get children() { return children() }
+      })
+    }
+    if (Error) {
+      const children = content
+      content = () => createComponent(ErrorBoundary, {
+        fallback: (error, reset) => createComponent(Error, { error, reset }),
+        get children() { return children() }
+      })
+    }
+    return content()
+  }
+}
 
 export default [
 ${routeStrings.join(',\n')}
@@ -286,7 +804,38 @@ ${routeStrings.join(',\n')}
   import type { RouteDefinition } from '@solidjs/router'
   const routes: RouteDefinition[]
   export default routes`
-    }
+    },
+
+    routerToCode (routesModule) {
+      return `import { createComponent, mergeProps } from 'solid-js'
+import { HashRouter, MemoryRouter, Router } from '@solidjs/router'
+import routes from '${routesModule}'
+
+const components = {
+  hash: HashRouter,
+  memory: MemoryRouter,
+  browser: Router,
+}
+
+${defaultHistoryToCode()}
+
+export function createRouter(options = {}) {
+  const { history = defaultHistory(), routes: extraRoutes = [], ...rest } = options
+  return (props) => createComponent(components[history], mergeProps(rest, props, { children: [...routes, ...extraRoutes] }))
+}`
+    },
+
+    routerDeclarationsToCode () {
+      return `
+  import type { Component } from 'solid-js'
+  import type { RouteDefinition, RouterProps } from '@solidjs/router'
+  export interface CreateRouterOptions extends Omit<RouterProps, 'children'> {
+    history?: 'hash' | 'memory' | 'browser'
+    routes?: RouteDefinition[]
+  }
+  export function createRouter (options?: CreateRouterOptions): Component<Omit<RouterProps, 'children'>>
+`
+    },
   }
 }
 
@@ -306,16 +855,28 @@ export function litDriver (): PagesDriver {
     extensions: ['.ts', '.js'],
     layoutFile: '+layout.ts',
     parentFile: '+index.ts',
+    middlewareFile: '+middleware.ts',
 
     routeToCode (route, depth = 0) {
+      if (route.alias?.length) {
+        return expandAliases(route).map(route => this.routeToCode(route, depth)).join(',\n')
+      }
+      route = redirectToChild(route)
+
       const indent = '  '.repeat(depth + 1)
       const childIndent = '  '.repeat(depth + 2)
       const componentName = route.name.replace(/-/g, '_')
 
       let code = `${indent}{\n`
-      code += `${childIndent}path: '${route.path}',\n`
-      code += `${childIndent}component: '${componentName}',\n`
-      code += `${childIndent}load: () => import('${route.file}')`
+      code += `${childIndent}path: ${quote(route.path)},\n`
+      code += isRedirect(route)
+        ? `${childIndent}redirect: ${toLiteral(route.redirect)}`
+        : `${childIndent}component: ${quote(componentName)},\n${childIndent}load: () => import(${quote(route.file)})`
+
+
+      if (route.meta) {
+        code += `,\n${childIndent}meta: ${toLiteral(route.meta)}`
+      }
 
       if (route.children && route.children.length > 0) {
         code += `,\n${childIndent}children: [\n`
@@ -356,14 +917,40 @@ export function svelteDriver (): PagesDriver {
     extensions: ['.svelte'],
     layoutFile: '+layout.svelte',
     parentFile: '+page.svelte',
+    middlewareFile: '+middleware.ts',
+
+    paramToPath (param) {
+      if (param.pattern) {
+        throw new Error('param matchers are not supported by svelte-spa-router')
+      }
+      if (param.repeatable) {
+        if (!param.optional) {
+          throw new Error('one-or-more params are not supported by svelte-spa-router, use [...name] instead')
+        }
+        return '*'
+      }
+      return `:${param.name}${param.optional ? '?' : ''}`
+    },
 
     routeToCode (route, depth = 0) {
+      if (route.alias?.length) {
+        return expandAliases(route).map(route => this.routeToCode(route, depth)).join(',\n')
+      }
+      route = redirectToChild(route)
+
       const indent = '  '.repeat(depth + 1)
       const childIndent = '  '.repeat(depth + 2)
 
       let code = `${indent}{\n`
-      code += `${childIndent}path: '${route.path}',\n`
-      code += `${childIndent}component: () => import('${route.file}')`
+      code += `${childIndent}path: ${quote(route.path)},\n`
+      code += isRedirect(route)
+        ? `${childIndent}redirect: ${toLiteral(route.redirect)}`
+        : `${childIndent}component: () => import(${quote(route.file)})`
+
+
+      if (route.meta) {
+        code += `,\n${childIndent}meta: ${toLiteral(route.meta)}`
+      }
 
       if (route.children && route.children.length > 0) {
         code += `,\n${childIndent}children: [\n`
@@ -391,6 +978,144 @@ ${routeStrings.join(',\n')}
 // utils
 // ---------------------------------------------------------------------------------------------------------------------
 
+/**
+ * Get the vue-router param type for a route param
+ *
+ * @see https://router.vuejs.org/guide/advanced/typed-routes.html
+ */
+function vueParamType (param: RouteParam, raw: boolean) {
+  return param.repeatable
+    ? param.optional
+      ? `ParamValueZeroOrMore<${raw}>`
+      : `ParamValueOneOrMore<${raw}>`
+    : param.optional
+      ? `ParamValueZeroOrOne<${raw}>`
+      : `ParamValue<${raw}>`
+}
+
+/**
+ * Serialize a route's named views as Angular routes: the page and its children as an empty path child, and each view
+ * as an empty path child for its named outlet, i.e. settings@sidebar.component.ts -> SettingsSidebarComponent
+ */
+function angularViewsToCode (route: RouteDefinition, driver: PagesDriver, depth: number) {
+  const indent = '  '.repeat(depth + 1)
+  const childIndent = '  '.repeat(depth + 2)
+  const page: RouteDefinition = { path: '', name: route.name, baseName: route.baseName, file: route.file, scope: route.scope, children: route.children }
+  const views = Object.entries(route.views || {}).map(([name, file]) => `${indent}{
+${childIndent}path: '',
+${childIndent}outlet: ${quote(name)},
+${childIndent}loadComponent: () => import(${quote(file)}).then(m => m.${pascalCase(`${route.baseName ?? route.name}-${name}`)}Component)
+${indent}}`)
+  return [driver.routeToCode(page, depth), ...views].join(',\n')
+}
+
+/**
+ * Test if a route only redirects, i.e. has a redirect and no children to render
+ */
+function isRedirect (route: RouteDefinition) {
+  return !!route.redirect && !route.children?.length
+}
+
+/**
+ * Move a parent route's redirect to an empty child route, for routers which apply redirects to all nested paths
+ */
+function redirectToChild (route: RouteDefinition): RouteDefinition {
+  if (!route.redirect || !route.children?.length) {
+    return route
+  }
+  const { redirect, ...parent } = route
+  const child: RouteDefinition = { path: '', name: `${route.name}-redirect`, file: route.file, scope: route.scope, redirect }
+  return { ...parent, children: [...route.children, child] }
+}
+
+/**
+ * Expand a route's aliases into copies of the route, for routers without native aliases
+ */
+function expandAliases (route: RouteDefinition): RouteDefinition[] {
+  const { alias = [], ...rest } = route
+  return [rest, ...alias.map(path => ({ ...rest, path }))]
+}
+
+/**
+ * Serialize middleware files as an array of lazy imports, optionally wrapped in a runtime helper
+ */
+function middlewareToCode (files: string[], wrapper?: string) {
+  const imports = files.map(file => wrapper
+    ? `${wrapper}(() => import(${quote(file)}))`
+    : `() => import(${quote(file)})`)
+  return `[${imports.join(', ')}]`
+}
+
+/**
+ * Get a unique import name for a boundary component, or undefined if there is no file
+ */
+function importName (file?: string) {
+  return file
+    ? `Boundary_${createHash('md5').update(file).digest('hex').slice(0, 8)}`
+    : 'undefined'
+}
+
+/**
+ * Static imports for all boundary components, so they're available even when lazy route chunks fail to load
+ */
+function boundariesToImports (routes: RouteDefinition[]) {
+  const files = new Set<string>()
+  function collect (routes: RouteDefinition[]) {
+    for (const route of routes) {
+      for (const file of [route.loading, route.error]) {
+        if (file) {
+          files.add(file)
+        }
+      }
+      collect(route.children || [])
+    }
+  }
+  collect(routes)
+  return Array.from(files)
+    .map(file => `import ${importName(file)} from ${quote(file)}\n`)
+    .join('')
+}
+
+/**
+ * Runtime default for router history: hash history for extension pages, which have no server to resolve paths, and
+ * memory history for content script UIs, which shouldn't change the host page's URL
+ */
+function defaultHistoryToCode () {
+  return `function defaultHistory() {
+  return location.protocol.endsWith('-extension:') ? 'hash' : 'memory'
+}`
+}
+
+function hasParams (path: string) {
+  return /:\w+/.test(path)
+}
+
+/**
+ * Serialize a path as a JavaScript expression, interpolating any params from a params expression
+ */
+function pathToCode (path: string, params: string) {
+  if (!hasParams(path)) {
+    return toLiteral(path)
+  }
+  const template = path
+    .replace(/[`\\]|\$(?=\{)/g, '\\$&')
+    .replace(/:(\w+)(\([^)]*\))?[?*+]?/g, (_, name) => `\${[].concat(${params}.${name} ?? []).map(encodeURIComponent).join('/')}`)
+  return `\`${template}\``
+}
+
+/**
+ * Serialize a static value (i.e. route meta) as a JavaScript literal
+ */
+export function toLiteral (value: unknown) {
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+function typeLiteral (members: string[]) {
+  return members.length
+    ? `{ ${members.join('; ')} }`
+    : '{}'
+}
+
 export function pascalCase (str: string) {
   return str
     .split('-')
@@ -1,13 +1,19 @@
-import { relative } from 'node:path'
+import { join, relative, resolve } from 'node:path'
 import pc from 'picocolors'
 import { defineWxtModule } from 'wxt/modules'
 import { type LogLevel, makeLogger, plural } from '@davestewart/wxt-utils'
-import { filesToRoutes, RouteDefinition, routesToCode } from './router/routes'
-import 'wxt'
-import { getPageFiles, getPagesDirs, PagesDirInfo } from './router/fs'
+import { getNamedRoutes, hmrToCode, type NamedRoute, RouteDefinition } from './router/routes'
+import type { HookResult, Wxt } from 'wxt'
+import { PagesDirInfo } from './router/fs'
+import type { PagesEvent } from './router/scanner'
+import { writeManifest } from './router/manifest'
+import { resolveScope, scopesToIdentifiers } from './router/scopes'
+import { type LinkedPage, linksToCode, linksToDeclarations, pageEntrypointTypes } from './router/links'
+import { navToDeclarations } from './router/nav'
+import { createPagesRoutes, type PagesRoutesOptions } from './api'
 import { type PagesDriver, vueDriver } from './drivers'
 
-export interface PagesModuleOptions {
+export interface PagesModuleOptions extends Omit<PagesRoutesOptions, 'devPages'> {
   /** Driver to use (defaults to vue) */
   driver?: PagesDriver
 
@@ -16,12 +22,40 @@ export interface PagesModuleOptions {
 
   /** Enable file watching in dev mode (defaults to true) */
   watch?: boolean
+
+  /** Include dev-only pages; pass an array of modes to include them in, i.e. ['development', 'staging'] (defaults to true in dev, false in builds) */
+  devPages?: boolean | string[]
+
+  /** Fail the build on any route conflict (defaults to false) */
+  strict?: boolean
+
+  /** Write a JSON route manifest; pass a path relative to the project root to change its location (defaults to .wxt/pages-manifest.json) */
+  manifest?: boolean | string
+}
+
+/**
+ * Generated code for a scope, which may be modified by the 'pages:generated' hook
+ */
+export interface PagesGeneratedCode {
+  scope: string
+  code: string
 }
 
 declare module 'wxt' {
   interface InlineConfig {
     pages?: PagesModuleOptions;
   }
+
+  interface WxtHooks {
+    /** Called after pages folders are found; modify the list to add, remove or re-scope folders */
+    'pages:dirs': (wxt: Wxt, dirs: PagesDirInfo[]) => HookResult
+
+    /** Called for each scope after routes are built; modify the routes to add, rename or remove them */
+    'pages:routes': (wxt: Wxt, scope: string, routes: RouteDefinition[]) => HookResult
+
+    /** Called for each scope after code is generated; modify the code property to change the output */
+    'pages:generated': (wxt: Wxt, generated: PagesGeneratedCode) => HookResult
+  }
 }
 
 export const module = defineWxtModule<PagesModuleOptions>({
@@ -39,62 +73,86 @@ export const module = defineWxtModule<PagesModuleOptions>({
     const watch = options.watch !== false // default to true
     const srcDir = wxt.config.srcDir
     const root = wxt.config.root
+    const devPages = Array.isArray(options.devPages)
+      ? options.devPages.includes(wxt.config.mode)
+      : options.devPages ?? wxt.config.command === 'serve'
+    const manifestPath = typeof options.manifest === 'string'
+      ? resolve(root, options.manifest)
+      : options.manifest !== false
+        ? join(wxt.config.wxtDir, 'pages-manifest.json')
+        : undefined
 
     // logging
     const Logger = makeLogger(wxt.logger, 'pages', options.logLevel)
 
-    // all source folders (main and layers)
-    const sourceDirs = [
+    // routes, which are built and cached for all <src>/pages and <src>/entrypoints/*/pages directories
+    const pages = createPagesRoutes({
+      root,
       srcDir,
       // layers added on 'layers:resolved' hook
-    ]
-
-    // all <src>/pages and <src>/entrypoints/*/pages directories with their scopes
-    const pagesInfos: PagesDirInfo[] = [
-      // src and layers built on 'ready' hook
-    ]
+      driver,
+      options: { ...options, devPages },
+      target: {
+        browser: wxt.config.browser,
+        manifestVersion: wxt.config.manifestVersion,
+      },
+      onError (file, error) {
+        Logger.warn(`Invalid options in ${relative(root, file)}: ${error.message}`)
+      },
+      async onDirs (dirs) {
+        await wxt.hooks.callHook('pages:dirs', wxt, dirs)
+      },
+      async onRoutes (scope, routes) {
+        await wxt.hooks.callHook('pages:routes', wxt, scope, routes)
+      },
+    })
 
     // a map of scope -> routes, built on 'ready' hook
-    const routesByScope: Map<string, RouteDefinition[]> = new Map()
+    const routesByScope = pages.routesByScope
+
+    // names of HTML page entrypoints, set on 'entrypoints:resolved' hook
+    let pageNames: string[] = []
+
+    /**
+     * Get the routes for each HTML page; pages render the scope with the same (possibly renamed) name if there is one,
+     * otherwise global
+     */
+    function getLinkedPages (): LinkedPage[] {
+      return pageNames.map(name => {
+        const resolved = resolveScope(name, options.scopes)
+        const scope = routesByScope.has(resolved) ? resolved : 'global'
+        return {
+          entrypoint: name,
+          file: `/${name}.html`,
+          scope,
+          routes: pages.getNamedRoutes(scope),
+        }
+      })
+    }
 
     // -----------------------------------------------------------------------------------------------------------------
     // routes
     // -----------------------------------------------------------------------------------------------------------------
 
-    // build routes function (we'll call this multiple times)
-    async function buildRoutes () {
-      // const routesByScope = new Map<string, RouteDefinition[]>()
-      routesByScope.clear()
-
-      // always add global routes!
-      routesByScope.set('global', [])
-
-      // add all routes
-      for (const { path: dir, scope: dirScope } of pagesInfos) {
-        const files = await getPageFiles(dir, driver.extensions)
-        const routes = filesToRoutes(files, dir, dirScope, driver.parentFile, driver.layoutFile)
-
-        // log
-        // log('Found routes:', routes)
-
-        for (const route of routes) {
-          const routeScope = route.scope
-
-          if (!routesByScope.has(routeScope)) {
-            routesByScope.set(routeScope, [])
-          }
-
-          const existingRoutes = routesByScope.get(routeScope)!
-          const existingIndex = existingRoutes.findIndex(r => r.path === route.path)
-          if (existingIndex >= 0) {
-            existingRoutes[existingIndex] = route
-          }
-          else {
-            existingRoutes.push(route)
-          }
+    function logDiagnostics (scopes: Set<string>) {
+      for (const { type, scope, reason, files } of pages.diagnostics) {
+        if (!scopes.has(scope)) {
+          continue
+        }
+        const [winner, loser] = files.map(file => relative(root, file))
+        if (type === 'override') {
+          Logger.debug(`Route ${reason} in ${pc.cyan(`@${scope}`)}: ${winner} overrides ${loser}`)
+        }
+        else if (type === 'error') {
+          Logger.error(`Route error in ${pc.cyan(`@${scope}`)}: ${reason} in ${winner}`)
+        }
+        else if (type === 'redirect') {
+          Logger.warn(`Route warning in ${pc.cyan(`@${scope}`)}: ${reason} in ${winner}`)
+        }
+        else {
+          Logger.warn(`Route conflict in ${pc.cyan(`@${scope}`)}: ${reason} in ${winner} and ${loser}`)
         }
       }
-      return routesByScope
     }
 
     function flattenRoutes (routes: RouteDefinition[], prefix = ''): string[] {
@@ -113,15 +171,19 @@ export const module = defineWxtModule<PagesModuleOptions>({
 
     function logRoutes () {
       // log
+      const pagesInfos = pages.pagesInfos
       Logger.info(`Found ${plural('pages folder', pagesInfos.length)}`)
 
       // scopes
-      for (const { path, scope } of pagesInfos) {
+      for (const { path, scope, prefix } of pagesInfos) {
         const rel = relative(root, path)
         const scopeLabel = scope === 'global'
           ? pc.dim('(global)')
           : pc.cyan(`@${scope}`)
-        Logger.debug(`  - ${rel} ${scopeLabel}`)
+        const prefixLabel = prefix
+          ? ' ' + pc.dim(`→ ${prefix}`)
+          : ''
+        Logger.debug(`  - ${rel} ${scopeLabel}${prefixLabel}`)
       }
 
       const scopes = Array.from(routesByScope.keys())
@@ -134,25 +196,35 @@ export const module = defineWxtModule<PagesModuleOptions>({
           Logger.debug(`    - ${route}`)
         }
       }
+
+      // dev-only routes
+      const devRoutes = pages.devRoutesRemoved
+      if (devRoutes) {
+        Logger.info(`Excluded ${plural('dev-only route', devRoutes)}`)
+      }
     }
 
     /**
-     * Update routes by rescanning all sources, grabbing pages folders, then rebuilding routes
+     * Update routes, either by rescanning all sources, or incrementally following a file system event
+     *
+     * Returns the scopes which were rebuilt
      */
-    async function updateRoutes (log = false) {
-      // get all pages from all sources
-      for (const sourceDir of sourceDirs) {
-        const dirs = await getPagesDirs(sourceDir)
-        pagesInfos.push(...dirs)
-      }
-
+    async function updateRoutes (event?: PagesEvent, path?: string) {
       // build routes
-      await buildRoutes()
+      const scopes = event && path
+        ? await pages.update(event, path)
+        : await pages.scan()
 
-      // log
-      if (log) {
-        logRoutes()
+      if (scopes.size) {
+        logDiagnostics(scopes)
+
+        // manifest
+        if (manifestPath) {
+          await writeManifest(manifestPath, pages.getManifest())
+        }
       }
+
+      return scopes
     }
 
     /**
@@ -161,7 +233,16 @@ export const module = defineWxtModule<PagesModuleOptions>({
      * @see https://github.com/davestewart/wxt-module-layers
      */
     wxt.hook('layers:resolved' as any, async (layerDirs: string[]) => {
-      sourceDirs.push(...layerDirs)
+      pages.sourceDirs.push(...layerDirs)
+    })
+
+    /**
+     * When entrypoints are resolved, we store the names of HTML pages, so links can be generated to their routes
+     */
+    wxt.hook('entrypoints:resolved', (_, entrypoints) => {
+      pageNames = entrypoints
+        .filter(entrypoint => pageEntrypointTypes.includes(entrypoint.type))
+        .map(entrypoint => entrypoint.name)
     })
 
     /**
@@ -171,6 +252,18 @@ export const module = defineWxtModule<PagesModuleOptions>({
     wxt.hook('ready', async () => {
       await updateRoutes()
       logRoutes()
+
+      // fail the build on errors
+      const errors = pages.diagnostics.filter(diagnostic => diagnostic.type === 'error')
+      if (errors.length && wxt.config.command === 'build') {
+        throw new Error(`Found ${plural('route error', errors.length)}`)
+      }
+
+      // fail the build on conflicts in strict mode
+      const conflicts = pages.diagnostics.filter(diagnostic => diagnostic.type === 'conflict')
+      if (options.strict && conflicts.length && wxt.config.command === 'build') {
+        throw new Error(`Found ${plural('route conflict', conflicts.length)} (strict mode is enabled)`)
+      }
     })
 
     // begin
@@ -183,6 +276,37 @@ export const module = defineWxtModule<PagesModuleOptions>({
     // virtual module variables (need to be accessible to all hooks and plugins)
     const MODULE_NAME = 'wxt-module-pages:routes'
     const MODULE_ID = '\0' + MODULE_NAME
+    const ROUTER_NAME = 'wxt-module-pages:router'
+    const ROUTER_ID = '\0' + ROUTER_NAME
+    const LINKS_NAME = 'wxt-module-pages:links'
+    const LINKS_ID = '\0' + LINKS_NAME
+    const NAV_NAME = 'wxt-module-pages:nav'
+    const NAV_ID = '\0' + NAV_NAME
+
+    // last generated code for each scope (before the 'pages:generated' hook, so comparing doesn't call it), the scopes
+    // in the index, links and navigation, so only changed modules are updated in dev
+    const codeByScope: Map<string, string> = new Map()
+    const navCodeByScope: Map<string, string> = new Map()
+    let indexScopes = ''
+    let linksCode: string | undefined
+
+    /**
+     * Generate code for a scope's routes, storing the code before the 'pages:generated' hook modifies it
+     */
+    async function generateCode (scope: string) {
+      const code = pages.getCode(scope)
+      codeByScope.set(scope, code)
+      const generated: PagesGeneratedCode = { scope, code }
+      await wxt.hooks.callHook('pages:generated', wxt, generated)
+      return generated.code
+    }
+
+    /**
+     * Generate code for a scope's navigation tree
+     */
+    function generateNavCode (scope: string) {
+      return pages.getNavCode(scope)
+    }
 
     // virtual module plugin
     function createVirtualRoutesPlugin () {
@@ -202,12 +326,44 @@ export const module = defineWxtModule<PagesModuleOptions>({
           if (id === MODULE_NAME) {
             return MODULE_ID
           }
-          else if (id.startsWith(MODULE_NAME + '/')) {
+          else if (id === LINKS_NAME) {
+            return LINKS_ID
+          }
+          else if (id.startsWith(MODULE_NAME + '/') || id.startsWith(ROUTER_NAME + '/') || id.startsWith(NAV_NAME + '/')) {
             return '\0' + id
           }
         },
 
         async load (id: string) {
+          // links to routes in all HTML pages
+          if (id === LINKS_ID) {
+            linksCode = linksToCode(getLinkedPages())
+            return linksCode
+          }
+
+          // navigation tree for a scope
+          if (id.startsWith(NAV_ID + '/')) {
+            const scope = id.slice(NAV_ID.length + 1)
+            if (!routesByScope.has(scope)) {
+              Logger.warn(`Invalid nav import: ${scope}`)
+            }
+            const code = generateNavCode(scope)
+            navCodeByScope.set(scope, code)
+            return code
+          }
+
+          // router factory for a scope, importing the scope's routes
+          if (id.startsWith(ROUTER_ID + '/')) {
+            const scope = id.slice(ROUTER_ID.length + 1)
+            if (!driver.routerToCode) {
+              throw new Error(`The ${driver.name} driver does not support "${ROUTER_NAME}" imports`)
+            }
+            if (!routesByScope.has(scope)) {
+              Logger.warn(`Invalid router import: ${scope}`)
+            }
+            return driver.routerToCode(`${MODULE_NAME}/${scope}`, wxt.config.command === 'serve')
+          }
+
           const route = parseRoute(id)
           if (route) {
             const path = route.path
@@ -216,10 +372,13 @@ export const module = defineWxtModule<PagesModuleOptions>({
             if (path === '') {
               let output = ''
               const scopes = Array.from(routesByScope.keys())
-              for (const scope of scopes) {
-                output += `import ${scope} from '${MODULE_NAME}/${scope}'\n`
+              const identifiers = scopesToIdentifiers(scopes)
+              indexScopes = scopes.join()
+              for (const [scope, identifier] of identifiers) {
+                output += `import ${identifier} from '${MODULE_NAME}/${scope}'\n`
               }
-              output += `export default { ${scopes.join(', ')} }\n`
+              output += `export { ${Array.from(identifiers.values()).join(', ')} }\n`
+              output += `export default { ${scopes.map(scope => `'${scope}': ${identifiers.get(scope)}`).join(', ')} }\n`
               return output
             }
 
@@ -229,31 +388,62 @@ export const module = defineWxtModule<PagesModuleOptions>({
               if (routes.length === 0) {
                 Logger.warn(`Invalid routes import: ${path}`)
               }
-              return routesToCode(routes, driver)
+              const code = await generateCode(path)
+              return wxt.config.command === 'serve'
+                ? `${code}\n\n${hmrToCode(driver)}\n`
+                : code
             }
           }
         },
 
-        async handleHotUpdate ({ file, server }: { file: string; server: any }) {
-          const isPageFile = pagesInfos.some(({ path }) => file.startsWith(path))
+        // strip vue <route> blocks, as they are read statically when building routes
+        transform (_code: string, id: string) {
+          if (/\?vue&type=route\b/.test(id)) {
+            return 'export default {}'
+          }
+        },
+      }
+    }
 
-          if (isPageFile) {
-            // invalidate all virtual modules
-            const modules = [
-              server.moduleGraph.getModuleById(MODULE_ID),
-              ...Array.from(routesByScope.keys())
-                .map(scope => server.moduleGraph.getModuleById(`${MODULE_ID}/${scope}`)),
-            ].filter(Boolean)
+    /**
+     * Update only the virtual modules whose generated code changed
+     *
+     * Scope modules accept their own updates, so only pages using the changed routes update (or reload)
+     */
+    async function reloadScopes (server: any, scopes: Set<string>) {
+      const ids: string[] = []
 
-            modules.forEach((module: any) => {
-              if (module) server.moduleGraph.invalidateModule(module)
-            })
+      // index, if scopes were added or removed
+      if (indexScopes && indexScopes !== Array.from(routesByScope.keys()).join()) {
+        ids.push(MODULE_ID)
+      }
 
-            // when do we need to rebuild routes here?
-            // server.ws.send({ type: 'full-reload' })
-          }
-        },
+      // links, if they have been loaded and any page's routes changed
+      if (linksCode !== undefined && linksCode !== linksToCode(getLinkedPages())) {
+        ids.push(LINKS_ID)
+      }
+
+      // scopes which have been loaded, and whose code has changed
+      for (const scope of scopes) {
+        const code = codeByScope.get(scope)
+        if (code !== undefined && code !== pages.getCode(scope)) {
+          ids.push(`${MODULE_ID}/${scope}`)
+        }
+        const navCode = navCodeByScope.get(scope)
+        if (navCode !== undefined && navCode !== generateNavCode(scope)) {
+          ids.push(`${NAV_ID}/${scope}`)
+        }
+      }
+
+      // update
+      for (const id of ids) {
+        const module = server.moduleGraph.getModuleById(id)
+        if (module) {
+          await server.reloadModule(module)
+        }
       }
+
+      return ids
     }
 
     // watch paths plugin
@@ -262,56 +452,32 @@ export const module = defineWxtModule<PagesModuleOptions>({
         name: 'wxt-module-pages-watch-paths',
 
         configureServer (server: any) {
-          if (pagesInfos.length === 0) {
-            Logger.warn('No pages folders found yet - watcher may not work correctly')
-          }
-
-          // handle file system events
-          const handleFileChange = async (filePath: string, event: 'add' | 'unlink') => {
-            // filter for relevant file extensions
-            const isRelevantFile = driver.extensions.some(ext => filePath.endsWith(ext))
-            if (!isRelevantFile) {
-              return
-            }
-
-            // check if file is in any pages directory
-            const isInPagesDir = watchPaths.some(path => filePath.startsWith(path))
-            if (!isInPagesDir) {
-              return
-            }
-
-            Logger.debug(`File event: ${event} - ${relative(root, filePath)}`)
-            Logger.debug(`Processing ${event}...`)
-            Logger.debug('Regenerating routes...')
-
-            // rebuild routes
-            await updateRoutes()
-
-            Logger.debug(`Updated routes for ${routesByScope.size} scope(s)`)
+          // handle file system events (queued, so rapid events i.e. git checkouts are processed in order)
+          let queue = Promise.resolve()
+          const handleEvent = (event: PagesEvent, path: string) => {
+            queue = queue.then(async () => {
+              // rebuild routes (returning the scopes that changed, if any)
+              const scopes = await updateRoutes(event, path)
+              if (!scopes.size) {
+                return
+              }
 
-            // invalidate virtual modules
-            const virtualModules = [
-              server.moduleGraph.getModuleById(MODULE_ID),
-              ...Array.from(routesByScope.keys())
-                .map(scope => server.moduleGraph.getModuleById(`${MODULE_ID}/${scope}`)),
-            ].filter(Boolean)
+              Logger.debug(`File event: ${event} - ${relative(root, path)}`)
+              Logger.debug(`Updated routes for ${plural('scope', scopes.size)}: ${Array.from(scopes).join(', ')}`)
 
-            virtualModules.forEach((module: any) => {
-              if (module) {
-                server.moduleGraph.invalidateModule(module, new Set(), Date.now(), true)
+              // update changed virtual modules
+              const ids = await reloadScopes(server, scopes)
+              if (ids.length) {
+                Logger.debug(`Updated ${plural('module', ids.length)}: ${ids.map(id => id.slice(1)).join(', ')}`)
               }
-            })
-
-            // trigger full reload
-            server.ws.send({
-              type: 'full-reload',
-              path: '*',
+            }).catch((error) => {
+              Logger.warn(`Unable to update routes: ${error.message}`)
             })
           }
 
-          // get watch paths
-          const watchPaths = pagesInfos.map(info => info.path)
-          Logger.info(`Watching ${plural('pages folder', watchPaths.length)} for changes`)
+          // watch source folders, so new pages folders are discovered, as well as existing pages folders
+          const watchPaths = [...pages.sourceDirs, ...pages.pagesInfos.map(info => info.path)]
+          Logger.info(`Watching ${plural('pages folder', pages.pagesInfos.length)} for changes`)
 
           // add watch paths to Vite's watcher
           watchPaths.forEach(path => {
@@ -319,13 +485,10 @@ export const module = defineWxtModule<PagesModuleOptions>({
           })
 
           // listen to Vite's watcher events
-          server.watcher.on('add', (filePath: string) => {
-            handleFileChange(filePath, 'add')
-          })
-
-          server.watcher.on('unlink', (filePath: string) => {
-            handleFileChange(filePath, 'unlink')
-          })
+          const events: PagesEvent[] = ['add', 'unlink', 'change', 'addDir', 'unlinkDir']
+          for (const event of events) {
+            server.watcher.on(event, (path: string) => handleEvent(event, path))
+          }
         },
       }
     }
@@ -353,26 +516,49 @@ export const module = defineWxtModule<PagesModuleOptions>({
 
     // prepare types before build
     wxt.hook('prepare:types', async (_, entries) => {
+      // named routes
+      const namedRoutesByScope: Map<string, NamedRoute[]> = new Map()
+      for (const [scope, routes] of routesByScope) {
+        namedRoutesByScope.set(scope, getNamedRoutes(routes))
+      }
+
       // individual routes
       const scopes = Array.from(routesByScope.keys())
       const routes = Array.from(scopes).map((scope) => {
-        const code = driver.declarationsToCode(scope)
+        const code = pages.getDeclarations(scope)
         const path = `${MODULE_NAME}/${scope}`
         return `declare module '${path}' {${code}}`
       }).join('\n\n')
 
+      // navigation trees
+      const navs = scopes.map(scope => `declare module '${NAV_NAME}/${scope}' {${navToDeclarations(`${MODULE_NAME}/${scope}`)}}`).join('\n\n')
+
+      // router factories
+      const routers = driver.routerDeclarationsToCode
+        ? scopes.map(scope => `declare module '${ROUTER_NAME}/${scope}' {${driver.routerDeclarationsToCode!()}}`).join('\n\n')
+        : ''
+
       // index route
+      const identifiers = scopesToIdentifiers(scopes)
+      const exports = scopes.map(scope => {
+        return `  export const ${identifiers.get(scope)}: typeof import('${MODULE_NAME}/${scope}').default`
+      }).join('\n')
       const code = scopes.map(scope => {
-        return `    ${scope}: import('${MODULE_NAME}/${scope}').default`
-      }).join(',\n')
+        return `    '${scope}': typeof ${identifiers.get(scope)}`
+      }).join('\n')
       const index = `declare module '${MODULE_NAME}' {
-  export default {
+${exports}
+  const scopes: {
 ${code}
   }
+  export default scopes
 }`
 
+      // links
+      const links = `declare module '${LINKS_NAME}' {${linksToDeclarations(getLinkedPages(), MODULE_NAME)}}`
+
       // index route
-      const text = `// Generated by wxt-module-pages\n\n${routes}\n\n${index}\n`
+      const text = `// Generated by wxt-module-pages\n\n${routes}\n\n${index}\n${routers ? `\n${routers}\n` : ''}\n${navs}\n\n${links}\n`
 
       // add
       entries.push({
@@ -380,6 +566,15 @@ ${code}
         path: 'wxt-module-pages.d.ts',
         text,
       })
+
+      // router augmentations
+      if (driver.typesToCode) {
+        entries.push({
+          tsReference: true,
+          path: 'wxt-module-pages-router.d.ts',
+          text: `// Generated by wxt-module-pages\n\n${driver.typesToCode(namedRoutesByScope)}`,
+        })
+      }
     })
 
   },
@@ -0,0 +1,138 @@
+import { basename } from 'node:path'
+import { joinPaths, type RouteDefinition } from './routes'
+
+export interface RouteDiagnostic {
+  /** An intentional layer override, an accidental conflict, a redirect to an unknown route, or a file which can't be converted to a route */
+  type: 'override' | 'conflict' | 'redirect' | 'error'
+
+  /** The scope the routes were generated for */
+  scope: string
+
+  /** A human-readable reason for the diagnostic */
+  reason: string
+
+  /** The files involved, with the winning (or first) file first */
+  files: string[]
+}
+
+interface FlatRoute {
+  route: RouteDefinition
+  path: string
+  parentPath: string
+  ancestors: RouteDefinition[]
+}
+
+/**
+ * Find conflicting routes within a scope, i.e. duplicate paths, equivalent paths and duplicate names
+ */
+export function getRouteConflicts (scope: string, routes: RouteDefinition[], parentFile?: string): RouteDiagnostic[] {
+  const diagnostics: RouteDiagnostic[] = []
+
+  // nested routes may share a path with their parent file, i.e. +index.vue and index.vue
+  function isNested (a: FlatRoute, b: FlatRoute) {
+    const ancestor = a.ancestors.includes(b.route)
+      ? b
+      : b.ancestors.includes(a.route)
+        ? a
+        : undefined
+    return !!ancestor && !!parentFile && basename(ancestor.route.file) === parentFile
+  }
+
+  // compare all pairs
+  const flatRoutes = flatten(routes)
+  for (let i = 0; i < flatRoutes.length; i++) {
+    for (let j = i + 1; j < flatRoutes.length; j++) {
+      const a = flatRoutes[i]
+      const b = flatRoutes[j]
+      const files = [a.route.file, b.route.file]
+
+      // paths
+      if (!isNested(a, b)) {
+        if (a.path === b.path) {
+          diagnostics.push({ type: 'conflict', scope, reason: `duplicate path "${a.path}"`, files })
+        }
+        else if (normalizePath(a.path) === normalizePath(b.path)) {
+          diagnostics.push({ type: 'conflict', scope, reason: `equivalent paths "${a.path}" and "${b.path}"`, files })
+        }
+      }
+
+      // names
+      if (a.route.name === b.route.name) {
+        diagnostics.push({ type: 'conflict', scope, reason: `duplicate name "${a.route.name}"`, files })
+      }
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Find redirects within a scope whose targets don't match any route (or alias) in the same scope
+ */
+export function getRedirectDiagnostics (scope: string, routes: RouteDefinition[]): RouteDiagnostic[] {
+  const diagnostics: RouteDiagnostic[] = []
+
+  // all paths which can be redirected to
+  const flatRoutes = flatten(routes)
+  const paths = flatRoutes.flatMap(({ route, path, parentPath }) => {
+    return [path, ...(route.alias || []).map(alias => joinPaths(parentPath, alias))]
+  })
+
+  // check targets, ignoring external urls, query strings and hashes
+  for (const { route, path, parentPath } of flatRoutes) {
+    if (!route.redirect || /^\w+:/.test(route.redirect)) {
+      continue
+    }
+    const target = joinPaths(parentPath, route.redirect.replace(/[?#].*$/, ''))
+    const matches = paths.some(path => normalizePath(path) === normalizePath(target) || pathToRegExp(path).test(target))
+    if (!matches) {
+      diagnostics.push({ type: 'redirect', scope, reason: `redirect from "${path}" to unknown route "${route.redirect}"`, files: [route.file] })
+    }
+  }
+
+  return diagnostics
+}
+
+/**
+ * Flatten routes, keeping track of ancestors
+ */
+function flatten (routes: RouteDefinition[], parentPath = '', ancestors: RouteDefinition[] = []): FlatRoute[] {
+  return routes.flatMap(route => {
+    const path = joinPaths(parentPath, route.path)
+    const children = route.children
+      ? flatten(route.children, path, [...ancestors, route])
+      : []
+    return [{ route, path, parentPath, ancestors }, ...children]
+  })
+}
+
+/**
+ * Convert a route path to a regular expression matching concrete paths, i.e. /users/:id matches /users/1, and catch-alls
+ * (:slug*, * or **) match any remaining path
+ */
+function pathToRegExp (path: string) {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  let source = ''
+  let index = 0
+  for (const match of path.matchAll(/\/(?::(\w+)(\([^)]*\))?([?*+])?|\*\*|\*\w*)/g)) {
+    const [text, name, pattern, modifier] = match
+    source += escape(path.slice(index, match.index))
+    source += modifier === '*' || !name
+      ? '(?:/.*)?'
+      : modifier === '+' || pattern === '(.*)'
+        ? '/.+'
+        : modifier === '?'
+          ? '(?:/[^/]+)?'
+          : '/[^/]+'
+    index = match.index! + text.length
+  }
+  source += escape(path.slice(index))
+  return new RegExp(`^${source}/?$`)
+}
+
+/**
+ * Normalize a path so paths differing only by param names match, i.e. /users/:id and /users/:userId
+ */
+function normalizePath (path: string) {
+  return path.replace(/:\w+/g, ':')
+}
@@ -1,34 +1,72 @@
-import { join } from 'path'
+import { basename, join, relative, resolve } from 'path'
 import { glob } from 'glob'
+import { minimatch } from 'minimatch'
 import { readdir, stat } from 'fs/promises'
+import { redirectsFiles } from './redirects'
 
 export interface PagesDirInfo {
   scope: string
   path: string
+  source: string
+  prefix?: string
 }
 
-export async function getPagesDirs (sourcePath: string): Promise<PagesDirInfo[]> {
+export interface PagesDirOptions {
+  /** Path to a pages folder, relative to each source folder (or absolute) */
+  path?: string
+
+  /** Glob pattern matching pages folders, relative to each source folder */
+  glob?: string
+
+  /** Scope for the folder's routes (defaults to global) */
+  scope?: string
+
+  /** Pattern to extract the scope from the folder path, relative to the source folder (uses the first capture group) */
+  scopeFromMatch?: RegExp
+
+  /** URL prefix to mount the folder's routes under, i.e. /admin */
+  prefix?: string
+}
+
+/**
+ * Default pages folders: the global pages folder, and each entrypoint's pages folder
+ */
+export const defaultPagesDirs: PagesDirOptions[] = [
+  { path: 'pages', scope: 'global' },
+  { glob: 'entrypoints/*/pages', scopeFromMatch: /^entrypoints\/([^/]+)\/pages$/ },
+]
+
+export interface PageFilesFilter {
+  /** Glob patterns (relative to the pages folder) for files to include */
+  include?: string[]
+
+  /** Glob patterns (relative to the pages folder) for files to exclude */
+  exclude?: string[]
+}
+
+export async function getPagesDirs (sourcePath: string, dirs: PagesDirOptions[] = defaultPagesDirs): Promise<PagesDirInfo[]> {
   // output
   const infos: PagesDirInfo[] = []
 
-  // paths
-  const pages = join(sourcePath, 'pages')
-  const entrypoints = await glob(join(sourcePath, 'entrypoints/*/pages'), { absolute: true })
-  const folders = [
-    pages,
-    ...entrypoints
-  ]
-
-  // test for pages folders
-  for (const path of folders) {
-    const isDir = await stat(path).then(stat => stat.isDirectory()).catch(() => false)
-    if (isDir) {
-      let scope = 'global'
-      const matches = path.match(/\/entrypoints\/([^/]+)\/pages$/)
-      if (matches) {
-        scope = matches[1]
+  for (const options of dirs) {
+    // paths
+    const folders = options.glob
+      ? (await glob(options.glob, { cwd: sourcePath, absolute: true })).sort()
+      : options.path
+        ? [resolve(sourcePath, options.path)]
+        : []
+
+    // test for pages folders
+    for (const path of folders) {
+      const isDir = await stat(path).then(stat => stat.isDirectory()).catch(() => false)
+      if (isDir) {
+        const rel = relative(sourcePath, path).replace(/\\/g, '/')
+        const matches = options.scopeFromMatch
+          ? rel.match(options.scopeFromMatch)
+          : null
+        const scope = matches?.[1] || options.scope || 'global'
+        infos.push({ scope, path, source: sourcePath, prefix: options.prefix })
       }
-      infos.push({ scope, path })
     }
   }
 
@@ -36,24 +74,95 @@ export async function getPagesDirs (sourcePath: string): Promise<PagesDirInfo[]>
   return infos
 }
 
-export async function getPageFiles (dir: string, extensions: string[], files: string[] = []) {
-  try {
-    const entries = await readdir(dir, { withFileTypes: true })
+/**
+ * Test if a path segment is ignored, i.e. _components or .drafts
+ */
+export function isIgnored (name: string) {
+  return name.startsWith('_') || name.startsWith('.')
+}
 
-    for (const entry of entries) {
-      const path = join(dir, entry.name)
+/**
+ * Test if a file path (relative to its pages folder) should generate routes
+ *
+ * Special files (i.e. middleware) are matched by name, or by extension if starting with a dot (i.e. loaders), regardless
+ * of the driver's extensions, and are not subject to include patterns
+ */
+export function isPageFile (relPath: string, extensions: string[], filter: PageFilesFilter = {}, specialFiles: string[] = []) {
+  const path = relPath.replace(/\\/g, '/')
+  const { include, exclude } = filter
 
-      if (entry.isDirectory()) {
-        await getPageFiles(path, extensions, files)
-      }
-      else if (extensions.some(ext => entry.name.endsWith(ext))) {
-        files.push(path)
-      }
+  // ignored files and folders
+  if (path.split('/').some(isIgnored)) {
+    return false
+  }
+
+  // redirects files
+  if (redirectsFiles.includes(path)) {
+    return false
+  }
+
+  // framework files
+  const isSpecial = specialFiles.some(name => name.startsWith('.')
+    ? path.endsWith(name)
+    : basename(path) === name)
+  if (!isSpecial && !extensions.some(ext => path.endsWith(ext))) {
+    return false
+  }
+
+  // user patterns
+  if (!isSpecial && include?.length && !include.some(pattern => minimatch(path, pattern))) {
+    return false
+  }
+  if (exclude?.some(pattern => minimatch(path, pattern))) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Get named layout files in a layouts folder by name, i.e. layouts/wide.vue -> wide
+ */
+export async function getLayoutFiles (dir: string, extensions: string[]): Promise<Record<string, string>> {
+  const layouts: Record<string, string> = {}
+  const entries = await readdir(dir, { withFileTypes: true }).catch(() => [])
+  for (const entry of entries) {
+    const ext = extensions.find(ext => entry.name.endsWith(ext))
+    if (entry.isFile() && ext && !isIgnored(entry.name)) {
+      layouts[entry.name.slice(0, -ext.length)] = join(dir, entry.name)
     }
   }
-  catch {
-    // directory doesn't exist or can't be read
+  return layouts
+}
+
+export async function getPageFiles (dir: string, extensions: string[], filter: PageFilesFilter = {}, specialFiles: string[] = []) {
+  const files: string[] = []
+
+  async function scan (path: string) {
+    try {
+      const entries = await readdir(path, { withFileTypes: true })
+
+      for (const entry of entries) {
+        // skip ignored files and folders early
+        if (isIgnored(entry.name)) {
+          continue
+        }
+
+        const entryPath = join(path, entry.name)
+
+        if (entry.isDirectory()) {
+          await scan(entryPath)
+        }
+        else if (isPageFile(relative(dir, entryPath), extensions, filter, specialFiles)) {
+          files.push(entryPath)
+        }
+      }
+    }
+    catch {
+      // directory doesn't exist or can't be read
+    }
   }
 
+  await scan(dir)
   return files
 }
@@ -0,0 +1,119 @@
+import { fillPathToCode, quote, type NamedRoute } from './routes'
+
+/**
+ * Entrypoint types which are HTML pages, so can be linked to
+ */
+export const pageEntrypointTypes = ['popup', 'options', 'sidepanel', 'newtab', 'bookmarks', 'history', 'devtools', 'sandbox', 'unlisted-page']
+
+export interface LinkedPage {
+  /** Entrypoint name, i.e. options */
+  entrypoint: string
+
+  /** Output HTML file, i.e. /options.html */
+  file: string
+
+  /** Scope whose routes the entrypoint renders */
+  scope: string
+
+  /** Named routes for the scope */
+  routes: NamedRoute[]
+}
+
+/**
+ * Runtime helpers for building and opening URLs to routes in other entrypoints, assuming hash history
+ */
+export function linksToCode (pages: LinkedPage[]) {
+  const entries = pages.map(page => {
+    const paths = page.routes
+      .map(route => `      ${quote(route.name)}: ${quote(route.path)}`)
+      .join(',\n')
+    const params = page.routes
+      .filter(route => route.params.length)
+      .map(route => `      ${quote(route.name)}: [${route.params.map(param => quote(param.name)).join(', ')}]`)
+      .join(',\n')
+    return `  ${quote(page.entrypoint)}: {
+    file: ${quote(page.file)},
+    paths: {
+${paths}
+    },
+    params: {
+${params}
+    },
+  }`
+  })
+
+  return `import { browser } from 'wxt/browser'
+
+const pages = {
+${entries.join(',\n')}
+}
+
+export function pageUrl(entrypoint, name, params = {}) {
+  const page = pages[entrypoint]
+  if (!page) {
+    throw new Error(\`Unknown page "\${entrypoint}"\`)
+  }
+  const path = page.paths[name]
+  if (path === undefined) {
+    throw new Error(\`Unknown route "\${name}" in page "\${entrypoint}"\`)
+  }
+  return browser.runtime.getURL(page.file) + '#' + fillPath(path, page.params[name] || [], params)
+}
+
+export async function openPage(entrypoint, name, params = {}, options = {}) {
+  const url = pageUrl(entrypoint, name, params)
+
+  // focus an existing tab showing the page
+  if (!options.newTab) {
+    const file = browser.runtime.getURL(pages[entrypoint].file)
+    const tabs = await browser.tabs.query({})
+    const tab = tabs.find(tab => tab.url && tab.url.split('#')[0] === file)
+    if (tab) {
+      await browser.tabs.update(tab.id, { url, active: true })
+      await browser.windows.update(tab.windowId, { focused: true })
+      return tab
+    }
+  }
+
+  // otherwise open a new one
+  return browser.tabs.create({ url })
+}
+
+${fillPathToCode()}
+`
+}
+
+/**
+ * Type declarations for the links module, using each scope module's named routes
+ */
+export function linksToDeclarations (pages: LinkedPage[], routesModule: string) {
+  const entries = pages
+    .map(page => `    ${quote(page.entrypoint)}: import('${routesModule}/${page.scope}').RouteNamedMap`)
+    .join('\n')
+
+  return `
+  import type { Browser } from 'wxt/browser'
+  export interface PageRouteMap {
+${entries}
+  }
+  export type PageName = keyof PageRouteMap
+  export type PageRouteName<Page extends PageName> = keyof PageRouteMap[Page] & string
+  export type PageRouteParams<Page extends PageName, Name extends PageRouteName<Page>> = PageRouteMap[Page][Name] extends { params: infer Params } ? Params : never
+  export interface OpenPageOptions {
+    /** Always open a new tab, rather than focusing an existing tab showing the page */
+    newTab?: boolean
+  }
+  export function pageUrl<Page extends PageName, Name extends PageRouteName<Page>> (
+    page: Page,
+    name: Name,
+    ...params: {} extends PageRouteParams<Page, Name> ? [params?: PageRouteParams<Page, Name>] : [params: PageRouteParams<Page, Name>]
+  ): string
+  export function openPage<Page extends PageName, Name extends PageRouteName<Page>> (
+    page: Page,
+    name: Name,
+    ...args: {} extends PageRouteParams<Page, Name>
+      ? [params?: PageRouteParams<Page, Name>, options?: OpenPageOptions]
+      : [params: PageRouteParams<Page, Name>, options?: OpenPageOptions]
+  ): Promise<Browser.tabs.Tab>
+`
+}
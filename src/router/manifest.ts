@@ -0,0 +1,132 @@
+import { dirname, relative } from 'node:path'
+import { mkdir, writeFile } from 'fs/promises'
+import { joinPaths, type RouteDefinition, type RouteParam } from './routes'
+import type { RouteMeta } from './meta'
+
+/**
+ * Route manifest, written as JSON for use by other tools
+ *
+ * The schema is versioned; breaking changes will increment the version
+ */
+export interface RoutesManifest {
+  /** Schema version */
+  version: 1
+
+  /** Flattened routes by scope */
+  scopes: Record<string, ManifestRoute[]>
+}
+
+export interface ManifestRoute {
+  /** Route name, i.e. users-id */
+  name: string
+
+  /** Full route path, i.e. /users/:id */
+  path: string
+
+  /** Route params, including those of parent routes */
+  params: RouteParam[]
+
+  /** Page file, relative to the project root */
+  file: string
+
+  /** Layout file, relative to the project root */
+  layout?: string
+
+  /** Named view files by view name, relative to the project root */
+  views?: Record<string, string>
+
+  /** Names of parent routes, outermost first */
+  parents: string[]
+
+  /** Static route meta */
+  meta?: RouteMeta
+
+  /** Path the route redirects to */
+  redirect?: string
+
+  /** Additional paths which render the route */
+  alias?: string[]
+
+  /** Middleware files applied by the route, relative to the project root, outermost first */
+  middleware?: string[]
+
+  /** Loading boundary file, relative to the project root */
+  loading?: string
+
+  /** Error boundary file, relative to the project root */
+  error?: string
+
+  /** Data loader file, relative to the project root */
+  loader?: string
+
+  /** Whether the route is only included in development */
+  devOnly?: boolean
+}
+
+/**
+ * Convert routes to a manifest, with file paths relative to root
+ */
+export function routesToManifest (routesByScope: Map<string, RouteDefinition[]>, root: string): RoutesManifest {
+  const toRelative = (file: string) => relative(root, file).replace(/\\/g, '/')
+
+  function flatten (routes: RouteDefinition[], parentPath = '', parents: string[] = []): ManifestRoute[] {
+    return routes.flatMap(route => {
+      const path = joinPaths(parentPath, route.path)
+      const item: ManifestRoute = {
+        name: route.name,
+        path,
+        params: route.params || [],
+        file: toRelative(route.file),
+        parents,
+      }
+      if (route.layout) {
+        item.layout = toRelative(route.layout)
+      }
+      if (route.views) {
+        item.views = Object.fromEntries(Object.entries(route.views).map(([name, file]) => [name, toRelative(file)]))
+      }
+      if (route.meta) {
+        item.meta = route.meta
+      }
+      if (route.redirect) {
+        item.redirect = route.redirect
+      }
+      if (route.alias) {
+        item.alias = route.alias
+      }
+      if (route.middleware) {
+        item.middleware = route.middleware.map(toRelative)
+      }
+      if (route.loading) {
+        item.loading = toRelative(route.loading)
+      }
+      if (route.error) {
+        item.error = toRelative(route.error)
+      }
+      if (route.loader) {
+        item.loader = toRelative(route.loader)
+      }
+      if (route.devOnly) {
+        item.devOnly = true
+      }
+      const children = route.children
+        ? flatten(route.children, path, [...parents, route.name])
+        : []
+      return [item, ...children]
+    })
+  }
+
+  const scopes: Record<string, ManifestRoute[]> = {}
+  for (const [scope, routes] of routesByScope) {
+    scopes[scope] = flatten(routes)
+  }
+  return { version: 1, scopes }
+}
+
+/**
+ * Write the route manifest to disk
+ */
+export async function writeManifest (path: string, manifest: RoutesManifest) {
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, JSON.stringify(manifest, null, 2) + '\n')
+}
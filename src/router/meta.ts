@@ -0,0 +1,316 @@
+import { readFile } from 'fs/promises'
+import type { RouteDefinition } from './routes'
+import { matchesTarget, type PagesTarget } from './targets'
+
+export type RouteMeta = Record<string, any>
+
+/**
+ * Route options declared statically within a page file
+ */
+export interface PageOptions {
+  meta?: RouteMeta
+
+  /** Path to redirect to, instead of rendering the page (or, for pages with children, when the page itself matches) */
+  redirect?: string
+
+  /** Additional paths which render the page */
+  alias?: string | string[]
+
+  /** Browsers or manifest versions to include the page in, i.e. ['chrome', 'mv3'] */
+  include?: string[]
+
+  /** Browsers or manifest versions to exclude the page from, i.e. ['firefox'] */
+  exclude?: string[]
+
+  /** Only include the page in development */
+  devOnly?: boolean
+
+  /** Named layout to render the page in, from a layouts folder, or false to not use its folder's layout */
+  layout?: string | false
+}
+
+/**
+ * Read route options from a page file, without executing it
+ *
+ * Supports:
+ *
+ * - a Vue `<route>` custom block containing a JSON(5) object
+ * - an `export const route = { ... }` declaration
+ * - a `definePage({ ... })` call
+ */
+export async function readPageOptions (file: string): Promise<PageOptions | undefined> {
+  const text = await readFile(file, 'utf8')
+  return parsePageOptions(text, file.endsWith('.vue'))
+}
+
+/**
+ * Parse route options from page file contents
+ */
+export function parsePageOptions (text: string, isVue = false): PageOptions | undefined {
+  // vue <route> block
+  if (isVue) {
+    const block = text.match(/<route(\s[^>]*)?>([\s\S]*?)<\/route>/)
+    if (block) {
+      const lang = block[1]?.match(/lang=["']([^"']+)["']/)?.[1]
+      if (lang && !['json', 'json5'].includes(lang)) {
+        throw new Error(`unsupported <route> block language "${lang}"`)
+      }
+      return toPageOptions(parseLiteral(block[2]))
+    }
+  }
+
+  // export const route = { ... } / definePage({ ... })
+  const call = text.match(/\bexport\s+const\s+route\s*(?::[^=]+)?=\s*(?=\{)|\bdefinePage\s*\(\s*(?=\{)/)
+  if (call) {
+    return toPageOptions(parseLiteral(text, call.index! + call[0].length))
+  }
+}
+
+function toPageOptions (value: any): PageOptions {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('route options must be an object')
+  }
+  if (value.meta !== undefined && (typeof value.meta !== 'object' || Array.isArray(value.meta))) {
+    throw new Error('route meta must be an object')
+  }
+  if (value.redirect !== undefined && typeof value.redirect !== 'string') {
+    throw new Error('route redirect must be a string')
+  }
+  if (value.alias !== undefined && ![value.alias].flat().every(alias => typeof alias === 'string')) {
+    throw new Error('route alias must be a string or an array of strings')
+  }
+  for (const key of ['include', 'exclude']) {
+    if (value[key] !== undefined && !(Array.isArray(value[key]) && value[key].every((item: any) => typeof item === 'string'))) {
+      throw new Error(`route ${key} must be an array of strings`)
+    }
+  }
+  if (value.devOnly !== undefined && typeof value.devOnly !== 'boolean') {
+    throw new Error('route devOnly must be a boolean')
+  }
+  if (value.layout !== undefined && typeof value.layout !== 'string' && value.layout !== false) {
+    throw new Error('route layout must be a string or false')
+  }
+  return value
+}
+
+/**
+ * Read route options for all routes (and their children), assigning meta, redirects, aliases, dev-only flags and
+ * layouts to each route
+ *
+ * Pass a target to remove routes (and their children) which are not included in it, and named layouts by name
+ *
+ * Pass a cache to skip re-reading unchanged files on subsequent calls
+ */
+export async function addRouteMeta (
+  routes: RouteDefinition[],
+  onError: (file: string, error: Error) => void,
+  cache: Map<string, PageOptions | undefined> = new Map(),
+  target?: PagesTarget,
+  layouts: Record<string, string> = {},
+) {
+  for (const route of [...routes]) {
+    try {
+      if (!cache.has(route.file)) {
+        cache.set(route.file, await readPageOptions(route.file))
+      }
+      const options = cache.get(route.file)
+      if (target && !isIncluded(options, target)) {
+        routes.splice(routes.indexOf(route), 1)
+        continue
+      }
+      if (options?.meta) {
+        route.meta = options.meta
+      }
+      if (options?.redirect) {
+        route.redirect = options.redirect
+      }
+      if (options?.alias) {
+        route.alias = [options.alias].flat()
+      }
+      if (options?.devOnly) {
+        route.devOnly = true
+      }
+      if (options?.layout === false) {
+        delete route.layout
+      }
+      else if (options?.layout) {
+        if (!layouts[options.layout]) {
+          throw new Error(`unknown layout "${options.layout}"`)
+        }
+        route.layout = layouts[options.layout]
+      }
+    }
+    catch (error: any) {
+      onError(route.file, error)
+    }
+    if (route.children) {
+      await addRouteMeta(route.children, onError, cache, target, layouts)
+    }
+  }
+}
+
+/**
+ * Test if a page is included in the target, from its include and exclude lists
+ */
+function isIncluded (options: PageOptions | undefined, target: PagesTarget) {
+  if (options?.include && !matchesTarget(options.include, target)) {
+    return false
+  }
+  return !(options?.exclude && matchesTarget(options.exclude, target))
+}
+
+// ---------------------------------------------------------------------------------------------------------------------
+// parser
+// ---------------------------------------------------------------------------------------------------------------------
+
+/**
+ * Parse a static JavaScript literal (JSON5-like) without evaluating it
+ *
+ * Supports objects, arrays, strings, numbers, booleans, null, undefined, comments and trailing commas
+ */
+export function parseLiteral (text: string, start = 0): any {
+  let index = start
+
+  function fail (message: string): never {
+    const line = text.slice(0, index).split('\n').length
+    throw new Error(`${message} (line ${line})`)
+  }
+
+  function skip () {
+    while (index < text.length) {
+      if (/\s/.test(text[index])) {
+        index++
+      }
+      else if (text.startsWith('//', index)) {
+        const end = text.indexOf('\n', index)
+        index = end < 0 ? text.length : end
+      }
+      else if (text.startsWith('/*', index)) {
+        const end = text.indexOf('*/', index)
+        index = end < 0 ? text.length : end + 2
+      }
+      else {
+        break
+      }
+    }
+  }
+
+  function parseString (): string {
+    const quote = text[index++]
+    let value = ''
+    while (index < text.length && text[index] !== quote) {
+      if (quote === '`' && text.startsWith('${', index)) {
+        fail('template expressions are not supported')
+      }
+      if (text[index] === '\\') {
+        const char = text[++index]
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', 0: '\0' }
+        if (char === 'u') {
+          value += String.fromCharCode(parseInt(text.slice(index + 1, index + 5), 16))
+          index += 5
+          continue
+        }
+        value += escapes[char] ?? char
+        index++
+        continue
+      }
+      value += text[index++]
+    }
+    if (text[index] !== quote) {
+      fail('unterminated string')
+    }
+    index++
+    return value
+  }
+
+  function parseKey (): string {
+    if (index >= text.length) {
+      fail('unexpected end of input')
+    }
+    if (`'"`.includes(text[index])) {
+      return parseString()
+    }
+    const match = text.slice(index).match(/^[$\w]+/)
+    if (!match) {
+      fail(`unexpected character "${text[index]}"`)
+    }
+    index += match[0].length
+    return match[0]
+  }
+
+  function parseValue (): any {
+    skip()
+    const char = text[index]
+
+    // object
+    if (char === '{') {
+      const value: Record<string, any> = {}
+      index++
+      skip()
+      while (text[index] !== '}') {
+        const key = parseKey()
+        skip()
+        if (text[index] !== ':') {
+          fail(`expected ":" after "${key}"`)
+        }
+        index++
+        value[key] = parseValue()
+        skip()
+        if (text[index] === ',') {
+          index++
+          skip()
+        }
+        else if (text[index] !== '}') {
+          fail('expected "," or "}"')
+        }
+      }
+      index++
+      return value
+    }
+
+    // array
+    if (char === '[') {
+      const value: any[] = []
+      index++
+      skip()
+      while (text[index] !== ']') {
+        value.push(parseValue())
+        skip()
+        if (text[index] === ',') {
+          index++
+          skip()
+        }
+        else if (text[index] !== ']') {
+          fail('expected "," or "]"')
+        }
+      }
+      index++
+      return value
+    }
+
+    // string
+    if (char && `'"\``.includes(char)) {
+      return parseString()
+    }
+
+    // number
+    const number = text.slice(index).match(/^[-+]?(0x[\da-f]+|(\d+\.?\d*|\.\d+)(e[-+]?\d+)?)/i)
+    if (number) {
+      index += number[0].length
+      return Number(number[0])
+    }
+
+    // keywords
+    const keyword = text.slice(index).match(/^(true|false|null|undefined)\b/)
+    if (keyword) {
+      index += keyword[0].length
+      return { true: true, false: false, null: null, undefined }[keyword[1]]
+    }
+
+    return fail(char
+      ? `unsupported expression starting with "${text.slice(index).match(/^\S{1,20}/)![0]}"`
+      : 'unexpected end of input')
+  }
+
+  return parseValue()
+}
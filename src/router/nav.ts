@@ -0,0 +1,205 @@
+import { dirname, join, relative } from 'node:path'
+import { readFile } from 'fs/promises'
+import { parseLiteral } from './meta'
+import { dirToPath, getFolderOrder, joinPaths, quote, type RouteDefinition } from './routes'
+
+/**
+ * Folder meta file name, for the navigation title, icon, order and visibility of its folder
+ */
+export const folderMetaFile = '+meta.json'
+
+/**
+ * Navigation options, from a page's route meta or a folder's meta file
+ */
+export interface NavMeta {
+  title?: string
+  icon?: string
+  order?: number
+  hidden?: boolean
+}
+
+/**
+ * A folder within a pages folder, which groups the navigation items of the routes within it
+ */
+export interface NavFolder {
+  /** Route path of the folder, i.e. /settings */
+  path: string
+
+  /** Scope of the folder's routes */
+  scope: string
+
+  /** Order, from a numeric folder prefix, i.e. 01.settings */
+  order?: number
+
+  /** Options from the folder's meta file */
+  meta?: NavMeta
+}
+
+export interface NavItem {
+  /** Route name, or undefined for folders without a page */
+  name?: string
+  path: string
+  title: string
+  icon?: string
+  children?: NavItem[]
+}
+
+/**
+ * Read a folder meta file, without executing it
+ */
+export async function readFolderMeta (file: string): Promise<NavMeta> {
+  const value = parseLiteral(await readFile(file, 'utf8'))
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('folder meta must be an object')
+  }
+  return value
+}
+
+/**
+ * Get the folders containing page files, with their route paths, orders and meta
+ */
+export function getNavFolders (
+  files: string[],
+  baseDir: string,
+  dirScope: string,
+  prefix = '',
+  metaByFile: Map<string, NavMeta | undefined> = new Map(),
+): NavFolder[] {
+  const folders: Map<string, NavFolder> = new Map()
+  for (const file of files) {
+    for (let dir = dirname(relative(baseDir, file).replace(/\\/g, '/')); dir !== '.'; dir = dirname(dir)) {
+      // route groups and scope folders don't add path segments, and dynamic folders aren't navigable
+      if (folders.has(dir) || /^[(@]|\[/.test(dir.split('/').pop()!)) {
+        continue
+      }
+      folders.set(dir, {
+        path: joinPaths(prefix.replace(/\/+$/, ''), dirToPath(dir).slice(1)) || '/',
+        scope: dir.match(/^@([^/]+)\//)?.[1] || dirScope,
+        order: getFolderOrder(dir),
+        meta: metaByFile.get(join(baseDir, dir, folderMetaFile)),
+      })
+    }
+  }
+  return Array.from(folders.values())
+}
+
+/**
+ * Convert routes to a navigation tree, nested by path, i.e. /settings/general within /settings
+ *
+ * Dynamic routes, redirects and hidden routes (and their children) are excluded; items are sorted by their meta or
+ * folder meta order, then their numeric file prefix
+ */
+export function routesToNav (routes: RouteDefinition[], folders: NavFolder[] = []): NavItem[] {
+  const foldersByPath = new Map(folders.map(folder => [folder.path, folder]))
+  const items: Map<string, NavItem> = new Map()
+  const orders: Map<NavItem, number | undefined> = new Map()
+  const hidden: Set<string> = new Set()
+  const root: NavItem[] = []
+
+  // get or create the item for a path, creating items for its parent folders
+  function getItem (path: string): NavItem | undefined {
+    if (items.has(path)) {
+      return items.get(path)
+    }
+    const folder = foldersByPath.get(path)
+    if (folder?.meta?.hidden || hidden.has(path)) {
+      return
+    }
+    const item: NavItem = { path, title: folder?.meta?.title ?? pathToTitle(path) }
+    if (folder?.meta?.icon) {
+      item.icon = folder.meta.icon
+    }
+    const parent = getParent(path)
+    if (parent === null) {
+      return
+    }
+    (parent ? parent.children ??= [] : root).push(item)
+    items.set(path, item)
+    orders.set(item, folder?.meta?.order ?? folder?.order)
+    return item
+  }
+
+  // get the parent item of a path, undefined for top-level paths, or null if a parent is hidden
+  function getParent (path: string) {
+    const parentPath = path.replace(/\/[^/]*$/, '')
+    return parentPath
+      ? getItem(parentPath) ?? null
+      : undefined
+  }
+
+  function add (routes: RouteDefinition[], parentPath = '') {
+    for (const route of routes) {
+      const path = joinPaths(parentPath, route.path)
+      if (/[:*]/.test(path) || route.meta?.hidden) {
+        hidden.add(path)
+        continue
+      }
+      if (!route.redirect || route.children?.length) {
+        const item = getItem(path)
+        if (item) {
+          const folder = foldersByPath.get(path)
+          item.name = route.name
+          item.title = route.meta?.title ?? folder?.meta?.title ?? item.title
+          if (route.meta?.icon ?? folder?.meta?.icon) {
+            item.icon = route.meta?.icon ?? folder?.meta?.icon
+          }
+          orders.set(item, route.meta?.order ?? folder?.meta?.order ?? route.order ?? folder?.order)
+        }
+      }
+      add(route.children || [], path)
+    }
+  }
+  add(routes)
+
+  return sortItems(root, orders)
+}
+
+/**
+ * Sort items and their children by order, keeping items without an order last, in their original order
+ */
+function sortItems (items: NavItem[], orders: Map<NavItem, number | undefined>): NavItem[] {
+  return items
+    .map((item, index) => ({ item, index, order: orders.get(item) ?? Infinity }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ item: { name, path, title, icon, children } }) => ({
+      name,
+      path,
+      title,
+      icon,
+      children: children && sortItems(children, orders),
+    }))
+}
+
+/**
+ * Default title for a path, i.e. /settings/user-profile -> User profile
+ */
+function pathToTitle (path: string) {
+  const segment = path.split('/').pop()!.replace(/[-_]+/g, ' ')
+  return segment
+    ? segment.charAt(0).toUpperCase() + segment.slice(1)
+    : 'Home'
+}
+
+/**
+ * Code for a scope's navigation module
+ */
+export function navToCode (items: NavItem[]) {
+  return `export default ${JSON.stringify(items, null, 2)}\n`
+}
+
+/**
+ * Type declarations for a scope's navigation module, using the scope module's named routes
+ */
+export function navToDeclarations (routesModule: string) {
+  return `
+  export interface NavItem {
+    name?: keyof import(${quote(routesModule)}).RouteNamedMap
+    path: string
+    title: string
+    icon?: string
+    children?: NavItem[]
+  }
+  const nav: NavItem[]
+  export default nav
+`
+}
@@ -0,0 +1,76 @@
+import { join } from 'node:path'
+import { readFile } from 'fs/promises'
+import { parseLiteral } from './meta'
+
+/**
+ * Redirects file names, checked in order, in the root of each pages folder
+ */
+export const redirectsFiles = ['+redirects.json', '+redirects.ts']
+
+/**
+ * Redirects from old paths to new paths, i.e. { '/options/general': '/settings' }
+ */
+export type Redirects = Record<string, string>
+
+export interface RedirectsFile {
+  /** Absolute path to the redirects file */
+  file: string
+
+  /** Redirects declared in the file */
+  redirects: Redirects
+}
+
+/**
+ * Read the redirects file for a pages folder, without executing it
+ *
+ * Supports:
+ *
+ * - a `+redirects.json` file containing a JSON(5) object
+ * - a `+redirects.ts` file with an `export default { ... }` declaration
+ */
+export async function readRedirects (dir: string, onError: (file: string, error: Error) => void): Promise<RedirectsFile | undefined> {
+  for (const name of redirectsFiles) {
+    const file = join(dir, name)
+    const text = await readFile(file, 'utf8').catch(() => undefined)
+    if (text === undefined) {
+      continue
+    }
+    try {
+      return { file, redirects: parseRedirects(text, name.endsWith('.ts')) }
+    }
+    catch (error: any) {
+      onError(file, error)
+      return
+    }
+  }
+}
+
+/**
+ * Parse redirects from redirects file contents
+ */
+export function parseRedirects (text: string, isScript = false): Redirects {
+  // export default { ... }
+  let start = 0
+  if (isScript) {
+    const declaration = text.match(/\bexport\s+default\s*(?=\{)/)
+    if (!declaration) {
+      throw new Error('redirects must be declared as "export default { ... }"')
+    }
+    start = declaration.index! + declaration[0].length
+  }
+
+  // validate
+  const value = parseLiteral(text, start)
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('redirects must be an object')
+  }
+  for (const [from, to] of Object.entries(value)) {
+    if (!from.startsWith('/')) {
+      throw new Error(`redirect "${from}" must be an absolute path`)
+    }
+    if (typeof to !== 'string') {
+      throw new Error(`redirect target for "${from}" must be a string`)
+    }
+  }
+  return value
+}
@@ -1,13 +1,50 @@
-import { basename, dirname, relative } from 'node:path'
+import { basename, dirname, isAbsolute, relative, sep } from 'node:path'
 import type { PagesDriver } from '../drivers'
+import type { RouteMeta } from './meta'
+import type { RedirectsFile } from './redirects'
+import { filterTargetFiles, parseTargetPath, type PagesTarget } from './targets'
 
 export interface RouteDefinition {
   path: string
   name: string
   file: string
   scope: string
+  params?: RouteParam[]
   children?: RouteDefinition[]
   layout?: string
+  meta?: RouteMeta
+  redirect?: string
+  alias?: string[]
+  middleware?: string[]
+  loading?: string
+  error?: string
+  loader?: string
+  devOnly?: boolean
+  /** Navigation order, from a numeric file (or for index files, folder) prefix, i.e. 01.general.vue */
+  order?: number
+  /** Named view files by view name, i.e. { sidebar: 'settings@sidebar.vue' } */
+  views?: Record<string, string>
+  /** Layout route, wrapping the routes which use the layout file */
+  isLayout?: boolean
+  /** Name from the file path, before prefixes and renames, i.e. for component class names */
+  baseName?: string
+}
+
+export interface RouteParam {
+  name: string
+  optional: boolean
+  repeatable: boolean
+  /** Matcher name, i.e. int for [id=int] */
+  matcher?: string
+  /** Regular expression source the param must match, resolved from the matcher */
+  pattern?: string
+}
+
+export interface NamedRoute {
+  name: string
+  path: string
+  params: RouteParam[]
+  loader?: string
 }
 
 interface FileNode {
@@ -15,23 +52,111 @@ interface FileNode {
   relPath: string
   isLayout: boolean
   isParent: boolean
+  isMiddleware: boolean
+  isLoading: boolean
+  isError: boolean
+  loaderBase?: string
+  isDevOnly: boolean
+  view?: string
+  order?: number
   scope: string
 }
 
+/**
+ * Options for converting files to routes: special file names and param syntax from the driver, plus param matchers
+ */
+export interface FilesToRoutesOptions extends Partial<Pick<PagesDriver, 'name' | 'parentFile' | 'layoutFile' | 'middlewareFile' | 'loadingFile' | 'errorFile' | 'loaderExtension' | 'paramToPath' | 'namedViews' | 'middleware'>> {
+  /** Param matchers, merged with the default matchers */
+  matchers?: Record<string, string | RegExp>
+
+  /** Target browser and manifest version, to select file variants, i.e. settings.firefox.vue */
+  target?: PagesTarget
+
+  /** Report a file which can't be converted to a route, i.e. invalid param syntax; the file is skipped */
+  onError?: (file: string, error: Error) => void
+}
+
+/**
+ * Default param matchers, used as [id=int] or [id=uuid]
+ */
+export const defaultMatchers: Record<string, string> = {
+  int: '\\d+',
+  uuid: '[\\da-fA-F]{8}-[\\da-fA-F]{4}-[\\da-fA-F]{4}-[\\da-fA-F]{4}-[\\da-fA-F]{12}',
+}
+
+/**
+ * Param syntax in file names: [id], [[tab]], [id=int], [...slug], [[...slug]] and [...slug]+
+ */
+const paramRegex = /\[\[(\.\.\.)?(\w+)(?:=(\w+))?\]\]|\[(\.\.\.)?(\w+)(?:=(\w+))?\](\+)?/g
+
+/**
+ * Numeric order prefix of a file or folder (with a trailing slash) name, i.e. 01.general.vue or 01.settings/
+ */
+const orderRegex = /^(\d+)\.(?=[^/.][^/]*[./])/
+
+/**
+ * Loading and error boundary files, inherited from the nearest ancestor folder which defines them
+ */
+interface Boundaries {
+  loading?: string
+  error?: string
+}
+
+/**
+ * Layout file, inherited from the nearest ancestor folder which defines one, and the layout an ancestor route already
+ * renders in, so nested routes aren't wrapped twice
+ */
+interface Layouts {
+  nearest?: string
+  applied?: string
+}
+
 export function filesToRoutes (
   files: string[],
   baseDir: string,
   dirScope: string,
-  parentFileName?: string,
-  layoutFileName?: string,
+  options: FilesToRoutesOptions = {},
+  redirects?: RedirectsFile,
 ): RouteDefinition[] {
+  // browser and manifest version variants, i.e. settings.firefox.vue, for the target only
+  const { target } = options
+  if (target) {
+    files = filterTargetFiles(files, target)
+  }
+
   // separate layouts and pages, detect @scope, detect flat routes
   const nodes: FileNode[] = files.map(absPath => {
-    const relPath = relative(baseDir, absPath).replace(/\\/g, '/')
+    let relPath = relative(baseDir, absPath).replace(/\\/g, '/')
+    if (target) {
+      relPath = parseTargetPath(relPath, target).path
+    }
+
+    // dev-only files, i.e. (dev)/storage.vue or storage.dev.vue -> storage.vue
+    const isDevOnly = /(^|\/)\(dev\)\//.test(relPath) || /\.dev(?=\.[^/]*$)/.test(relPath)
+    relPath = relPath.replace(/\.dev(?=\.[^/]*$)/, '')
+
+    // order prefixes, i.e. 01.settings/02.general.vue -> settings/general.vue
+    const [folderName, fileName] = ['', ...relPath.split('/')].slice(-2)
+    const fileOrder = fileName.match(orderRegex)?.[1]
+    const folderOrder = (folderName + '/').match(orderRegex)?.[1]
+    relPath = stripOrderPrefixes(relPath)
+
+    // named views, i.e. settings@sidebar.vue -> settings.vue, rendered in the sidebar view
+    const view = relPath.match(/@([\w-]+)(?=\.[^/]*$)/)?.[1]
+    relPath = relPath.replace(/@[\w-]+(?=\.[^/]*$)/, '')
 
     // special files
-    const isParent = !!(parentFileName && basename(absPath) === parentFileName)
-    const isLayout = !!(layoutFileName && basename(absPath) === layoutFileName)
+    const name = basename(relPath)
+    const isParent = name === options.parentFile
+    const isLayout = name === options.layoutFile
+    const isMiddleware = name === options.middlewareFile
+    const isLoading = name === options.loadingFile
+    const isError = name === options.errorFile
+
+    // loader files, i.e. users/[id].loader.ts -> users/[id]
+    const loaderBase = options.loaderExtension && name.endsWith(options.loaderExtension)
+      ? relPath.slice(0, -options.loaderExtension.length)
+      : undefined
 
     // check for @scope prefix in path
     const fileScopeMatch = relPath.match(/^@([^/]+)\//)
@@ -39,14 +164,46 @@ export function filesToRoutes (
       ? fileScopeMatch[1]
       : dirScope
 
-    return { absPath, relPath, isParent, isLayout, scope }
+    // index and parent files take their folder's order
+    const order = /^index\./.test(name) || isParent
+      ? folderOrder
+      : fileOrder
+
+    return { absPath, relPath, isParent, isLayout, isMiddleware, isLoading, isError, loaderBase, isDevOnly, view, order: order ? Number(order) : undefined, scope }
   })
 
   // build tree structure
-  return buildRouteTree(nodes, baseDir)
+  const routes = buildRouteTree(nodes, baseDir, options)
+
+  // add redirect records
+  if (redirects) {
+    routes.push(...redirectsToRoutes(redirects, dirScope))
+  }
+  return routes
+}
+
+/**
+ * Convert a redirects file to redirect records, named after their paths
+ */
+function redirectsToRoutes ({ file, redirects }: RedirectsFile, scope: string): RouteDefinition[] {
+  return Object.entries(redirects).map(([path, redirect]) => {
+    const name = path
+      .replace(/:(\w+)(\([^)]*\))?[?*+]?/g, '$1')
+      .replace(/^\/|\/$/g, '')
+      .replace(/\//g, '-') || 'index'
+
+    return {
+      path,
+      name,
+      file,
+      scope,
+      params: getPathParams(path),
+      redirect,
+    }
+  })
 }
 
-function buildRouteTree (nodes: FileNode[], baseDir: string): RouteDefinition[] {
+function buildRouteTree (nodes: FileNode[], baseDir: string, options: FilesToRoutesOptions): RouteDefinition[] {
   // hash of directories for this baseDir
   const byDirectory = new Map<string, FileNode[]>()
 
@@ -57,27 +214,155 @@ function buildRouteTree (nodes: FileNode[], baseDir: string): RouteDefinition[]
       byDirectory.set(dir, [])
     }
     byDirectory.get(dir)!.push(node)
+
+    // add intermediate directories without files of their own, so their subdirectories are processed
+    let parentDir = dirname(dir)
+    while (dir !== '.' && parentDir !== '.' && !byDirectory.has(parentDir)) {
+      byDirectory.set(parentDir, [])
+      parentDir = dirname(parentDir)
+    }
+  }
+
+  // report a file which can't be converted to a route, or throw if there's no handler
+  function reportError (node: FileNode, error: Error) {
+    if (!options.onError) {
+      throw error
+    }
+    options.onError(node.absPath, error)
   }
 
-  function processDirectory (dir: string, parentPath: string = '', parentScope?: string): RouteDefinition[] {
+  /**
+   * Process a directory, passing down middleware files from ancestor directories (outermost first), those already
+   * applied by ancestor routes, and the nearest boundary and layout files
+   */
+  function processDirectory (
+    dir: string,
+    parentPath: string = '',
+    parentScope?: string,
+    middleware: string[] = [],
+    applied: string[] = [],
+    boundaries: Boundaries = {},
+    layouts: Layouts = {},
+  ): RouteDefinition[] {
     // get all input files in this directory
     const filesInDir = byDirectory.get(dir) || []
 
     // special files
-    const parent = filesInDir.find(f => f.isParent)
-    const layout = filesInDir.find(f => f.isLayout)
-    const pages = filesInDir.filter(f => !f.isLayout && !f.isParent)
+    const parent = filesInDir.find(f => f.isParent && !f.view)
+    const pages = filesInDir.filter(f => !f.isLayout && !f.isParent && !f.isMiddleware && !f.isLoading && !f.isError && !f.loaderBase && !f.view)
+
+    // named views are matched to the page (or parent) file with the same name, i.e. settings@sidebar.vue -> settings.vue
+    const views = filesInDir.filter(f => f.view)
+    function addViews (route: RouteDefinition, node: FileNode) {
+      for (const view of views.filter(f => f.relPath === node.relPath)) {
+        route.views = { ...route.views, [view.view!]: view.absPath }
+      }
+    }
+    for (const view of views) {
+      if (view.relPath === parent?.relPath || pages.some(page => page.relPath === view.relPath)) {
+        if (!options.namedViews) {
+          reportError(view, new Error(`named views are not supported by the ${options.name || 'current'} driver`))
+        }
+      }
+      else {
+        reportError(view, new Error(`named view "${view.view}" has no page "${basename(view.relPath)}"`))
+      }
+    }
+
+    // loaders are matched to the page file with the same name, i.e. users/[id].loader.ts -> users/[id].vue
+    const loaders = filesInDir.filter(f => f.loaderBase)
+    function addLoader (route: RouteDefinition, node: FileNode) {
+      const loader = loaders.find(f => node.relPath.startsWith(f.loaderBase + '.'))
+      if (loader) {
+        route.loader = loader.absPath
+      }
+    }
+
+    // middleware stacks with ancestor directories, but routes only need middleware their ancestor routes don't apply
+    const dirMiddleware = filesInDir.find(f => f.isMiddleware)
+    if (dirMiddleware && !options.middleware) {
+      reportError(dirMiddleware, new Error(`middleware is not supported by the ${options.name || 'current'} driver`))
+    }
+    else if (dirMiddleware) {
+      middleware = [...middleware, dirMiddleware.absPath]
+    }
+    function addMiddleware (route: RouteDefinition) {
+      const files = middleware.filter(file => !applied.includes(file))
+      if (files.length) {
+        route.middleware = files
+      }
+    }
+
+    // boundaries apply to all routes in this directory and below, unless overridden
+    boundaries = {
+      loading: filesInDir.find(f => f.isLoading)?.absPath || boundaries.loading,
+      error: filesInDir.find(f => f.isError)?.absPath || boundaries.error,
+    }
+    function addBoundaries (route: RouteDefinition) {
+      if (boundaries.loading) {
+        route.loading = boundaries.loading
+      }
+      if (boundaries.error) {
+        route.error = boundaries.error
+      }
+    }
+
+    // layouts apply to all routes in this directory and below, unless overridden (drivers may use the parent file)
+    layouts = {
+      ...layouts,
+      nearest: filesInDir.find(f => f.isLayout && !f.isParent)?.absPath || layouts.nearest,
+    }
+    function addLayout (route: RouteDefinition) {
+      if (layouts.nearest && layouts.nearest !== layouts.applied) {
+        route.layout = layouts.nearest
+      }
+    }
+
+    // convert a file to a route, reporting and skipping files with invalid or unsupported params
+    function toRoute (node: FileNode, isParent: boolean) {
+      try {
+        const route = fileToRoute(node, baseDir, options, parentPath, isParent, parentScope)
+        if (node.isDevOnly) {
+          route.devOnly = true
+        }
+        if (node.order !== undefined) {
+          route.order = node.order
+        }
+        if (options.namedViews) {
+          addViews(route, node)
+        }
+        return route
+      }
+      catch (error: any) {
+        reportError(node, error)
+      }
+    }
+
+    // if there's a parent (router view) it applies this directory's middleware to all routes
+    const parentRoute = parent
+      ? toRoute(parent, true)
+      : undefined
+    if (parentRoute) {
+      addMiddleware(parentRoute)
+      addBoundaries(parentRoute)
+      addLoader(parentRoute, parent!)
+      addLayout(parentRoute)
+      applied = middleware
+      layouts = { ...layouts, applied: layouts.nearest }
+    }
 
     // all valid routes in this directory
     const dirRoutes: RouteDefinition[] = []
 
     for (const page of pages) {
-      const route = fileToRoute(page, baseDir, parentPath, false, parentScope)
-
-      // if we have a layout in this directory, assign it to the route
-      if (layout) {
-        route.layout = layout.absPath
+      const route = toRoute(page, false)
+      if (!route) {
+        continue
       }
+      addMiddleware(route)
+      addBoundaries(route)
+      addLoader(route, page)
+      addLayout(route)
 
       // check if this page has child directories
       const pageName = basename(page.relPath).replace(/\.(vue|jsx|tsx|svelte|component\.ts)$/, '')
@@ -85,13 +370,7 @@ function buildRouteTree (nodes: FileNode[], baseDir: string): RouteDefinition[]
 
       // this page has children, make it a parent
       if (byDirectory.has(childDir)) {
-        route.children = processDirectory(childDir, route.path, route.scope)
-      }
-
-      // if route is "flat" route, convert path spaces to slashes
-      if (route.path.includes('_')) {
-        route.path = route.path.replace(/_/g,  '/')
-        route.name = route.path.replace(/^\//, '').replace(/\/:?/g,  '-')
+        route.children = processDirectory(childDir, route.path, route.scope, middleware, middleware, boundaries, { ...layouts, applied: layouts.nearest })
       }
 
       dirRoutes.push(route)
@@ -107,15 +386,15 @@ function buildRouteTree (nodes: FileNode[], baseDir: string): RouteDefinition[]
 
     for (const [subDir] of byDirectory) {
       if (subDir !== dir && dirname(subDir) === dir && !processedDirs.has(subDir)) {
-        const orphanRoutes = processDirectory(subDir, '', parentScope)
+        const orphanRoutes = processDirectory(subDir, '', parentScope, middleware, applied, boundaries, layouts)
         dirRoutes.push(...orphanRoutes)
       }
     }
 
     // if there's a parent (router view) wrap all routes in it
-    if (parent) {
-      const parentRoute = fileToRoute(parent, baseDir, parentPath, true, parentScope)
+    if (parentRoute) {
       parentRoute.children = dirRoutes
+      nameParentRoute(parentRoute)
       return [parentRoute]
     }
 
@@ -128,6 +407,7 @@ function buildRouteTree (nodes: FileNode[], baseDir: string): RouteDefinition[]
 function fileToRoute (
   node: FileNode,
   baseDir: string,
+  options: FilesToRoutesOptions,
   parentPath: string = '',
   isParent: boolean = false,
   parentScope?: string
@@ -146,38 +426,39 @@ function fileToRoute (
   const fileName = basename(relativePath)
 
   // handle route groups: (admin)/users -> users
-  const cleanRelativePath = relativePath.replace(/\([^)]+\)\//g, '')
+  // handle flat routes: blog_posts -> blog/posts (underscores in params are kept)
+  const cleanRelativePath = relativePath
+    .replace(/\([^)]+\)\//g, '')
+    .replace(/_(?![^[]*\])/g, '/')
 
   // handle parent routes
   if (isParent) {
     const dir = dirname(cleanRelativePath)
     const path = dir === '.' ? '' : dir
-    const name = path.replace(/\//g, '-') || 'parent'
+    const { path: routePath, params } = paramsToPath(path, options)
 
+    const name = pathToName(path) || 'parent'
     return {
-      path: parentPath ? '' : '/' + path,
+      path: parentPath ? '' : '/' + routePath,
       name,
+      baseName: name,
       file: node.absPath,
       scope,
+      params,
       children: []
     }
   }
 
   // handle index routes
-  let path: string
+  let filePath = cleanRelativePath
   if (fileName === 'index') {
-    path = dirname(cleanRelativePath)
-    path = path === '.' ? '/' : '/' + path
+    filePath = dirname(cleanRelativePath)
+    filePath = filePath === '.' ? '' : filePath
   }
-  else {
-    path = '/' + cleanRelativePath
-  }
-
-  // handle dynamic routes: [id] -> :id
-  path = path.replace(/\[(\w+)\]/g, ':$1')
 
-  // handle catch-all routes: [...slug] -> :slug(.*)
-  path = path.replace(/\[\.\.\.(\w+)\]/g, ':$1(.*)*')
+  // handle params: [id] -> :id, [[tab]] -> :tab?, [id=int] -> :id(\d+), [...slug] -> :slug(.*)*
+  const { path: routePath, params } = paramsToPath(filePath, options)
+  let path = '/' + routePath
 
   // remove parent path if nested
   if (parentPath && path.startsWith(parentPath)) {
@@ -193,26 +474,462 @@ function fileToRoute (
   }
 
   // convert to route name: about/team.vue -> about-team
-  const name = cleanRelativePath
-    .replace(/\[\.\.\.(\w+)\]/g, '$1-all')
-    .replace(/\[(\w+)\]/g, '$1')
-    .replace(/\//g, '-')
-    .replace(/^index$/, 'index')
+  const name = pathToName(cleanRelativePath)
     .replace(/-index$/, '')
 
   return {
     path,
     name,
+    baseName: name,
     file: node.absPath,
-    scope
+    scope,
+    params,
   }
 }
 
-export function routesToCode (routes: RouteDefinition[], driver: PagesDriver) {
+/**
+ * Strip numeric order prefixes from a file path's folders and file name, i.e. 01.settings/02.general.vue -> settings/general.vue
+ */
+export function stripOrderPrefixes (path: string) {
+  return path.replace(/(^|\/)\d+\.(?=[^/.][^/]*[./])/g, '$1')
+}
+
+/**
+ * Get the numeric order prefix of a folder, i.e. 01.settings -> 1
+ */
+export function getFolderOrder (dir: string) {
+  const order = (basename(dir) + '/').match(orderRegex)?.[1]
+  return order ? Number(order) : undefined
+}
+
+/**
+ * Convert a folder path (relative to its pages folder) to its route path, i.e. 01.settings/(admin)/users -> /settings/users
+ */
+export function dirToPath (dir: string) {
+  return '/' + stripOrderPrefixes(dir + '/')
+    .replace(/^@[^/]+\//, '')
+    .replace(/\([^)]+\)\//g, '')
+    .replace(/_(?![^[]*\])/g, '/')
+    .replace(/\/$/, '')
+}
+
+/**
+ * Convert a file path to a route name: users/[id] -> users-id, [...slug] -> slug-all
+ */
+function pathToName (path: string) {
+  return path
+    .replace(paramRegex, (_, optionalSpread, optionalName, _m, spread, name) => {
+      return optionalSpread || spread
+        ? `${optionalName || name}-all`
+        : optionalName || name
+    })
+    .replace(/\//g, '-')
+}
+
+/**
+ * Convert params in a file path to the driver's path syntax, throwing for invalid or unsupported params
+ */
+function paramsToPath (path: string, options: FilesToRoutesOptions) {
+  // brackets which aren't valid param syntax, i.e. [id or [a-b]
+  if (/[[\]]/.test(path.replace(paramRegex, ''))) {
+    throw new Error(`invalid param syntax in "${path}"`)
+  }
+
+  const { paramToPath = defaultParamToPath } = options
+  const matchers = { ...defaultMatchers, ...options.matchers }
+  const params: RouteParam[] = []
+  const routePath = path.replace(paramRegex, (token, optionalSpread, optionalName, optionalMatcher, spread, name, matcher, plus) => {
+    // [...slug]+ is a required catch-all
+    if (plus && !spread) {
+      throw new Error(`invalid param "${token}": only catch-all params can be repeatable, i.e. [...${name}]+`)
+    }
+    const param: RouteParam = optionalName
+      ? { name: optionalName, optional: true, repeatable: !!optionalSpread }
+      : { name, optional: !!spread && !plus, repeatable: !!spread }
+
+    // [id=int]
+    param.matcher = optionalMatcher || matcher
+    if (param.matcher) {
+      const pattern = matchers[param.matcher]
+      if (pattern === undefined) {
+        throw new Error(`unknown param matcher "${param.matcher}" in "${token}"`)
+      }
+      param.pattern = typeof pattern === 'string'
+        ? pattern
+        : pattern.source
+
+      // patterns are wrapped in a group in route paths, which routers (and generated code) end at the first ")"
+      if (/[()]/.test(param.pattern)) {
+        throw new Error(`invalid param matcher "${param.matcher}" in "${token}": patterns can't contain groups`)
+      }
+    }
+    else {
+      delete param.matcher
+    }
+    params.push(param)
+
+    try {
+      return paramToPath(param)
+    }
+    catch (error: any) {
+      throw new Error(`unsupported param "${token}": ${error.message}`)
+    }
+  })
+  return { path: routePath, params }
+}
+
+/**
+ * Convert a param to vue-router path syntax, i.e. :id, :tab?, :id(\d+), :slug(.*)* or :path(.*)+
+ */
+export function defaultParamToPath (param: RouteParam) {
+  const pattern = param.pattern
+    ? `(${param.pattern})`
+    : param.repeatable ? '(.*)' : ''
+  const modifier = param.repeatable
+    ? param.optional ? '*' : '+'
+    : param.optional ? '?' : ''
+  return `:${param.name}${pattern}${modifier}`
+}
+
+/**
+ * Get params from a route path: :id -> id, :id? -> id (optional), :slug* -> slug[]
+ */
+function getPathParams (path: string): RouteParam[] {
+  return Array.from(path.matchAll(/:(\w+)(\([^)]*\))?([?*+])?/g)).map(([, name, , modifier]) => {
+    return {
+      name,
+      optional: modifier === '?' || modifier === '*',
+      repeatable: modifier === '*' || modifier === '+',
+    }
+  })
+}
+
+/**
+ * Remove dev-only routes (and their children), returning the number of routes removed
+ */
+export function removeDevRoutes (routes: RouteDefinition[]): number {
+  let count = 0
+  for (const route of [...routes]) {
+    if (route.devOnly) {
+      routes.splice(routes.indexOf(route), 1)
+      count += 1 + getNamedRoutes(route.children || []).length
+    }
+    else if (route.children) {
+      count += removeDevRoutes(route.children)
+    }
+  }
+  return count
+}
+
+/**
+ * Merge routes into base routes, replacing routes with the same resolved path at any depth (i.e. within a base scope's
+ * root parent file) and merging their children
+ *
+ * Base routes are cloned, so nested routes can be replaced without modifying them
+ */
+export function mergeRoutes (
+  base: RouteDefinition[],
+  routes: RouteDefinition[],
+  onReplace?: (route: RouteDefinition, existing: RouteDefinition, path: string) => void,
+  parentPath = '',
+): RouteDefinition[] {
+  const merged = structuredClone(base)
+  for (const route of routes) {
+    const path = joinPaths(parentPath, route.path)
+    const match = findRoute(merged, path, !!route.children?.length, parentPath)
+    if (!match) {
+      merged.push(route)
+      continue
+    }
+    const { siblings, index } = match
+    const existing = siblings[index]
+    onReplace?.(route, existing, path)
+
+    // keep the existing path, which may be relative to its parent
+    siblings[index] = existing.children?.length || route.children?.length
+      ? { ...route, path: existing.path, children: mergeRoutes(existing.children || [], route.children || [], onReplace, path) }
+      : { ...route, path: existing.path }
+  }
+  return merged
+}
+
+/**
+ * Find a route by resolved path at any depth, preferring parent routes for parent routes, and pages for pages, as a
+ * parent file and its index page share a path
+ */
+function findRoute (routes: RouteDefinition[], path: string, isParent: boolean, parentPath = '') {
+  const matches: { siblings: RouteDefinition[], index: number }[] = []
+  function find (siblings: RouteDefinition[], parentPath: string) {
+    siblings.forEach((route, index) => {
+      const routePath = joinPaths(parentPath, route.path)
+      if (routePath === path) {
+        matches.push({ siblings, index })
+      }
+      find(route.children || [], routePath)
+    })
+  }
+  find(routes, parentPath)
+  return matches.find(({ siblings, index }) => !!siblings[index].children?.length === isParent) ?? matches[0]
+}
+
+/**
+ * Mount routes under a URL prefix, i.e. /admin, prefixing absolute paths at any depth (children of parent files are
+ * absolute) and route names to keep them unique
+ */
+export function prefixRoutes (routes: RouteDefinition[], prefix?: string): RouteDefinition[] {
+  const path = (prefix || '').replace(/^\/*/, '/').replace(/\/+$/, '')
+  if (!path) {
+    return routes
+  }
+
+  const namePrefix = path.slice(1).replace(/\//g, '-')
+  function prefixRoute (route: RouteDefinition) {
+    if (route.path.startsWith('/')) {
+      route.path = route.path === '/'
+        ? path
+        : path + route.path
+    }
+    route.name = route.name === 'index' || route.name === 'parent'
+      ? namePrefix
+      : `${namePrefix}-${route.name}`
+    route.children?.forEach(prefixRoute)
+    nameParentRoute(route)
+  }
+
+  routes.forEach(prefixRoute)
+  return routes
+}
+
+/**
+ * Give a parent route a distinct name if a child (i.e. its index page) has the same name, as names must be unique
+ */
+function nameParentRoute (route: RouteDefinition) {
+  if (route.children?.some(child => child.name === route.name)) {
+    route.name = `${route.name}-parent`
+  }
+}
+
+/**
+ * Join a parent path with a (possibly relative) child path
+ */
+export function joinPaths (parentPath: string, path: string) {
+  if (path.startsWith('/')) {
+    return path
+  }
+  if (!path) {
+    return parentPath || '/'
+  }
+  return parentPath.replace(/\/$/, '') + '/' + path
+}
+
+/**
+ * Flatten a route tree into a list of named routes with full paths
+ */
+export function getNamedRoutes (routes: RouteDefinition[], parentPath = ''): NamedRoute[] {
+  return routes.flatMap(route => {
+    const path = joinPaths(parentPath, route.path)
+    if (route.isLayout) {
+      return getNamedRoutes(route.children || [], path)
+    }
+    const named: NamedRoute = { name: route.name, path, params: route.params || [] }
+    if (route.loader) {
+      named.loader = route.loader
+    }
+    const children = route.children
+      ? getNamedRoutes(route.children, path)
+      : []
+    return [named, ...children]
+  })
+}
+
+/**
+ * Generate code for a scope's routes, importing files relative to root if passed
+ */
+export function routesToCode (routes: RouteDefinition[], driver: PagesDriver, root?: string) {
+  routes = routesToImportPaths(routes, root)
   function processRoute (route: RouteDefinition, depth: number = 0): string {
     return driver.routeToCode(route, depth)
   }
 
-  const routeStrings = routes.map(route => processRoute(route, 0))
-  return driver.routesToCode(routeStrings)
+  const tree = driver.layoutRoutes
+    ? nestLayouts(routes)
+    : routes
+  const routeStrings = tree.map(route => processRoute(route, 0))
+  return driver.routesToCode(routeStrings, tree) + '\n\n' + namedRoutesToCode(getNamedRoutes(routes))
+}
+
+/**
+ * Nest routes in layout routes, so sibling routes with the same layout share a single layout instance
+ */
+export function nestLayouts (routes: RouteDefinition[], isRoot = true): RouteDefinition[] {
+  const nested: RouteDefinition[] = []
+  const groups: Map<string, RouteDefinition> = new Map()
+  for (const { layout, ...route } of routes) {
+    if (route.children) {
+      route.children = nestLayouts(route.children, false)
+    }
+    if (!layout) {
+      nested.push(route)
+      continue
+    }
+
+    // top-level routes have absolute paths, so the layout route matches from the root; nested routes are relative
+    let group = groups.get(layout)
+    if (!group) {
+      group = { path: isRoot ? '/' : '', name: '', file: layout, scope: route.scope, isLayout: true, children: [] }
+      groups.set(layout, group)
+      nested.push(group)
+    }
+    group.children!.push(route)
+  }
+  return nested
+}
+
+/**
+ * HMR code for a scope module, using the driver's handler if it has one, otherwise reloading pages which use the routes
+ */
+export function hmrToCode (driver: PagesDriver) {
+  return driver.hmrToCode?.() ?? `if (import.meta.hot) {
+  import.meta.hot.accept(() => location.reload())
+}`
+}
+
+/**
+ * Runtime helpers for building paths from route names and params
+ */
+export function namedRoutesToCode (routes: NamedRoute[]) {
+  const paths = routes
+    .map(route => `  ${quote(route.name)}: ${quote(route.path)}`)
+    .join(',\n')
+
+  // param names by route, in path order
+  const params = routes
+    .filter(route => route.params.length)
+    .map(route => `  ${quote(route.name)}: [${route.params.map(param => quote(param.name)).join(', ')}]`)
+    .join(',\n')
+
+  return `export const paths = {
+${paths}
+}
+
+const pathParams = {
+${params}
+}
+
+export function toPath (name, params = {}) {
+  const path = paths[name]
+  if (path === undefined) {
+    throw new Error(\`Unknown route "\${name}"\`)
+  }
+  return fillPath(path, pathParams[name] || [], params)
+}
+
+${fillPathToCode()}
+`
+}
+
+/**
+ * Runtime helper to fill a path's params by position, as not all drivers' path syntax includes param names
+ */
+export function fillPathToCode () {
+  return `function fillPath(path, keys, params) {
+  let index = 0
+  return path
+    .replace(/:\\w+(\\([^)]*\\))?[?*+]?|\\*\\*|\\*\\w*/g, () => {
+      const value = params[keys[index++]]
+      return Array.isArray(value)
+        ? value.map(v => encodeURIComponent(v)).join('/')
+        : value === undefined || value === null
+          ? ''
+          : encodeURIComponent(value)
+    })
+    .replace(/\\/{2,}/g, '/')
+    .replace(/(.)\\/$/, '$1')
+}`
+}
+
+/**
+ * Type declarations for route names, paths and params
+ */
+export function namedRoutesToDeclarations (routes: NamedRoute[], root?: string) {
+  const entries = routes.map(route => {
+    const params = route.params
+      .map(param => `${param.name}${param.optional ? '?' : ''}: ${param.repeatable ? '(string | number)[]' : 'string | number'}`)
+      .join('; ')
+    return `    ${quote(route.name)}: { path: ${quote(route.path)}, params: {${params ? ` ${params} ` : ''}} }`
+  })
+
+  // loader data, from the return type of each route's loader (with the file extension removed)
+  const loaders = routes
+    .filter(route => route.loader)
+    .map(route => `    ${quote(route.name)}: LoaderResult<typeof import(${quote(toImportPath(route.loader!, root).replace(/\.[jt]s$/, ''))})>`)
+
+  return `
+  export interface RouteNamedMap {
+${entries.join('\n')}
+  }
+  export type RouteName = keyof RouteNamedMap
+  export type RouteParams<Name extends RouteName> = RouteNamedMap[Name]['params']
+  export const paths: { [Name in RouteName]: RouteNamedMap[Name]['path'] }
+  export function toPath<Name extends RouteName> (
+    name: Name,
+    ...params: {} extends RouteParams<Name> ? [params?: RouteParams<Name>] : [params: RouteParams<Name>]
+  ): string
+  type LoaderResult<Module> = Module extends { loader: (...args: any[]) => infer Result }
+    ? Awaited<Result>
+    : Module extends { default: (...args: any[]) => infer Result }
+      ? Awaited<Result>
+      : never
+  export interface RouteLoaderDataMap {
+${loaders.join('\n')}
+  }
+  export type LoaderData<Name extends keyof RouteLoaderDataMap> = RouteLoaderDataMap[Name]
+`
+}
+
+/**
+ * Quote a string as a JavaScript string literal, i.e. for paths containing param patterns, or files containing quotes
+ */
+export function quote (value: string) {
+  const escapes: Record<string, string> = { '\n': '\\n', '\r': '\\r', '\u2028': '\\u2028', '\u2029': '\\u2029' }
+  return `'${value.replace(/[\\'\n\r\u2028\u2029]/g, char => escapes[char] ?? `\\${char}`)}'`
+}
+
+/**
+ * Convert a file path to a root-relative import specifier, i.e. /Users/alice/project/src/pages/index.vue ->
+ * @@/src/pages/index.vue, so generated code is the same on every machine (files outside the root are unchanged)
+ */
+export function toImportPath (file: string, root?: string) {
+  if (!root) {
+    return file
+  }
+  const path = relative(root, file).split(sep).join('/')
+  return path.startsWith('../') || isAbsolute(path)
+    ? file
+    : `@@/${path}`
+}
+
+/**
+ * Convert the files of routes (and their children) to root-relative import specifiers, for generated code
+ */
+export function routesToImportPaths (routes: RouteDefinition[], root?: string): RouteDefinition[] {
+  const toPath = (file: string) => toImportPath(file, root)
+  return routes.map(route => {
+    const resolved: RouteDefinition = { ...route, file: toPath(route.file) }
+    for (const key of ['layout', 'loading', 'error', 'loader'] as const) {
+      if (route[key]) {
+        resolved[key] = toPath(route[key])
+      }
+    }
+    if (route.middleware) {
+      resolved.middleware = route.middleware.map(toPath)
+    }
+    if (route.views) {
+      resolved.views = Object.fromEntries(Object.entries(route.views).map(([name, file]) => [name, toPath(file)]))
+    }
+    if (route.children) {
+      resolved.children = routesToImportPaths(route.children, root)
+    }
+    return resolved
+  })
 }
@@ -0,0 +1,476 @@
+import { basename, dirname, join, relative } from 'node:path'
+import type { PagesDriver } from '../drivers'
+import { getLayoutFiles, getPageFiles, getPagesDirs, isPageFile, type PageFilesFilter, type PagesDirInfo, type PagesDirOptions } from './fs'
+import { filesToRoutes, mergeRoutes, prefixRoutes, removeDevRoutes, type RouteDefinition } from './routes'
+import { addRouteMeta, readPageOptions, type PageOptions } from './meta'
+import { getRedirectDiagnostics, getRouteConflicts, type RouteDiagnostic } from './diagnostics'
+import { readRedirects, redirectsFiles, type RedirectsFile } from './redirects'
+import type { PagesTarget } from './targets'
+import { getExtendedScopes, resolveScope, validateScope } from './scopes'
+import { folderMetaFile, getNavFolders, readFolderMeta, type NavFolder, type NavMeta } from './nav'
+
+export type PagesEvent = 'add' | 'unlink' | 'change' | 'addDir' | 'unlinkDir'
+
+export interface PagesScannerOptions {
+  /** Driver to use */
+  driver: PagesDriver
+
+  /** Source folders (main and layers) to scan for pages folders */
+  sourceDirs?: string[]
+
+  /** Pages folders to scan in each source folder */
+  dirs?: PagesDirOptions[]
+
+  /** Include and exclude patterns for page files */
+  filter?: PageFilesFilter
+
+  /** Param matchers, i.e. { slug: '[a-z-]+' } for [id=slug] */
+  matchers?: Record<string, string | RegExp>
+
+  /** Rename scopes, i.e. { 'side-panel': 'sidepanel' }, or merge them, i.e. { popup: 'main', options: 'main' } */
+  scopes?: Record<string, string>
+
+  /** Scopes which include the routes of other scopes, i.e. { popup: 'global' }, or { '*': 'global' } for all scopes */
+  extends?: Record<string, string | string[]>
+
+  /** Target browser and manifest version, to select page variants and remove excluded pages */
+  target?: PagesTarget
+
+  /** Include dev-only pages, i.e. (dev)/ folders, *.dev.vue files and pages with devOnly: true (defaults to true) */
+  devPages?: boolean
+
+  /** Handle errors reading folder meta and redirects files (invalid route options are reported as diagnostics) */
+  onError?: (file: string, error: Error) => void
+
+  /** Modify the list of pages folders, after they are found */
+  onDirs?: (dirs: PagesDirInfo[]) => void | Promise<void>
+
+  /** Modify a scope's routes, after they are merged; return an array to replace them */
+  onRoutes?: (scope: string, routes: RouteDefinition[]) => void | RouteDefinition[] | Promise<void | RouteDefinition[]>
+}
+
+/**
+ * Create a scanner which builds routes for all pages folders, then incrementally updates them as files change
+ *
+ * Page file listings, routes and page options are cached per pages folder / file, so that a change to a single
+ * file only rebuilds its pages folder and the scopes that folder contributes to
+ */
+export function createPagesScanner (options: PagesScannerOptions) {
+  const { driver, dirs, filter = {}, matchers, scopes: aliases, extends: extendsMap = {}, target, devPages = true, onError = () => {}, onDirs, onRoutes } = options
+
+  // files to scan for, regardless of extension
+  const specialFiles = [driver.middlewareFile, driver.loadingFile, driver.errorFile, driver.loaderExtension, folderMetaFile]
+    .filter(Boolean) as string[]
+
+  // all source folders (main and layers)
+  const sourceDirs: string[] = [...options.sourceDirs || []]
+
+  // all pages folders with their scopes
+  let pagesInfos: PagesDirInfo[] = []
+
+  // named layout files, from each source folder's layouts folder
+  let layouts: Record<string, string> = {}
+
+  // cached page files and routes by pages folder
+  const filesByDir: Map<string, string[]> = new Map()
+  const routesByDir: Map<string, RouteDefinition[]> = new Map()
+
+  // cached page options by file
+  const optionsByFile: Map<string, PageOptions | undefined> = new Map()
+
+  // cached folder meta by file, and folders (for navigation) by pages folder
+  const folderMetaByFile: Map<string, NavMeta | undefined> = new Map()
+  const foldersByDir: Map<string, NavFolder[]> = new Map()
+
+  // cached redirects by pages folder
+  const redirectsByDir: Map<string, RedirectsFile | undefined> = new Map()
+
+  // errors converting page files to routes by pages folder, i.e. invalid params
+  const errorsByDir: Map<string, RouteDiagnostic[]> = new Map()
+
+  // number of dev-only routes removed by pages folder
+  const devRoutesByDir: Map<string, number> = new Map()
+
+  // merged routes, folders and diagnostics by scope
+  const routesByScope: Map<string, RouteDefinition[]> = new Map()
+  const foldersByScope: Map<string, NavFolder[]> = new Map()
+  const diagnosticsByScope: Map<string, RouteDiagnostic[]> = new Map()
+
+  // ---------------------------------------------------------------------------------------------------------------
+  // build
+  // ---------------------------------------------------------------------------------------------------------------
+
+  async function findPagesDirs () {
+    const infos: PagesDirInfo[] = []
+    for (const sourceDir of sourceDirs) {
+      infos.push(...await getPagesDirs(sourceDir, dirs))
+    }
+    for (const info of infos) {
+      info.scope = resolveScope(info.scope, aliases)
+    }
+    await onDirs?.(infos)
+    return infos
+  }
+
+  /**
+   * Find named layouts, with later source folders (layers) overriding earlier ones
+   */
+  async function findLayouts () {
+    const layouts: Record<string, string> = {}
+    for (const sourceDir of sourceDirs) {
+      Object.assign(layouts, await getLayoutFiles(join(sourceDir, 'layouts'), driver.extensions))
+    }
+    return layouts
+  }
+
+  /**
+   * Resolve scopes from @scope prefixes using the scopes option
+   */
+  function resolveRouteScopes (routes: RouteDefinition[]) {
+    for (const route of routes) {
+      route.scope = resolveScope(route.scope, aliases)
+      resolveRouteScopes(route.children || [])
+    }
+  }
+
+  /**
+   * Build routes for a single pages folder, returning the scopes it contributed to before and after
+   */
+  async function buildDir (info: PagesDirInfo): Promise<Set<string>> {
+    const { path: dir, scope, prefix } = info
+
+    // files (sorted, so output is stable regardless of the order files were found or added)
+    if (!filesByDir.has(dir)) {
+      filesByDir.set(dir, await getPageFiles(dir, driver.extensions, filter, specialFiles))
+    }
+    const files = [...filesByDir.get(dir)!].sort()
+
+    // folder meta, for navigation
+    for (const file of files.filter(file => basename(file) === folderMetaFile)) {
+      if (!folderMetaByFile.has(file)) {
+        folderMetaByFile.set(file, await readFolderMeta(file).catch((error) => {
+          onError(file, error)
+          return undefined
+        }))
+      }
+    }
+    const folders = getNavFolders(files, dir, scope, prefix, folderMetaByFile)
+    for (const folder of folders) {
+      folder.scope = resolveScope(folder.scope, aliases)
+    }
+    foldersByDir.set(dir, folders)
+
+    // redirects
+    if (!redirectsByDir.has(dir)) {
+      redirectsByDir.set(dir, await readRedirects(dir, onError))
+    }
+    const redirects = redirectsByDir.get(dir)
+
+    // routes, with invalid params and route options reported as errors
+    const errors: RouteDiagnostic[] = []
+    const reportError = (file: string, error: Error) => {
+      const fileScope = resolveScope(relative(dir, file).match(/^@([^/]+)\//)?.[1] || scope, aliases)
+      errors.push({ type: 'error', scope: fileScope, reason: error.message, files: [file] })
+    }
+    const pageFiles = files.filter(file => basename(file) !== folderMetaFile)
+    const routes = prefixRoutes(filesToRoutes(pageFiles, dir, scope, {
+      ...driver,
+      matchers,
+      target,
+      onError: reportError,
+    }, redirects), prefix)
+    resolveRouteScopes(routes)
+    await addRouteMeta(routes, reportError, optionsByFile, target, layouts)
+    if (!devPages) {
+      devRoutesByDir.set(dir, removeDevRoutes(routes))
+    }
+
+    // scopes
+    const scopes = new Set([scope])
+    for (const route of [...routesByDir.get(dir) || [], ...routes]) {
+      scopes.add(route.scope)
+    }
+    for (const error of [...errorsByDir.get(dir) || [], ...errors]) {
+      scopes.add(error.scope)
+    }
+
+    errorsByDir.set(dir, errors)
+
+    routesByDir.set(dir, routes)
+    return scopes
+  }
+
+  /**
+   * Merge routes from all pages folders for the given scopes
+   *
+   * Routes are cloned from the cache, so they can be safely modified once merged
+   */
+  async function mergeScopes (scopes: Set<string>) {
+    // add scopes which extend the given scopes (and scopes configured to extend others, which may have no pages)
+    const candidates = new Set([...scopes, ...routesByScope.keys(), ...Object.keys(extendsMap).filter(scope => scope !== '*')])
+    for (const scope of candidates) {
+      if (getExtendedScopes(scope, extendsMap).some(base => scopes.has(base))) {
+        scopes.add(scope)
+      }
+    }
+
+    // reset scopes, including the scopes they extend (which aren't updated)
+    const ownRoutesByScope: Map<string, RouteDefinition[]> = new Map()
+    for (const scope of scopes) {
+      ownRoutesByScope.set(scope, [])
+      diagnosticsByScope.set(scope, [])
+      for (const base of getExtendedScopes(scope, extendsMap)) {
+        ownRoutesByScope.set(base, [])
+      }
+    }
+
+    // add errors from each pages folder
+    for (const { path: dir } of pagesInfos) {
+      for (const error of errorsByDir.get(dir) || []) {
+        if (scopes.has(error.scope)) {
+          diagnosticsByScope.get(error.scope)!.push(error)
+        }
+      }
+    }
+
+    // the source folder (src or layer) of each route, to distinguish overrides from conflicts
+    const sources: Map<RouteDefinition, string> = new Map()
+
+    // add routes from each pages folder, in order
+    for (const { path: dir, source } of pagesInfos) {
+      for (const route of structuredClone(routesByDir.get(dir) || [])) {
+        const routeScope = route.scope
+        if (!ownRoutesByScope.has(routeScope)) {
+          continue
+        }
+
+        const existingRoutes = ownRoutesByScope.get(routeScope)!
+        const existingIndex = existingRoutes.findIndex(r => r.path === route.path)
+        if (existingIndex >= 0) {
+          // later layers intentionally override earlier ones, but the same layer should not define a path twice
+          const existing = existingRoutes[existingIndex]
+          diagnosticsByScope.get(routeScope)?.push(sources.get(existing) === source
+            ? { type: 'conflict', scope: routeScope, reason: `duplicate path "${route.path}"`, files: [route.file, existing.file] }
+            : { type: 'override', scope: routeScope, reason: `layer override of "${route.path}"`, files: [route.file, existing.file] })
+          existingRoutes[existingIndex] = route
+        }
+        else {
+          existingRoutes.push(route)
+        }
+        sources.set(route, source)
+      }
+    }
+
+    // merge the routes and folders of extended scopes, with each scope overriding the scopes it extends
+    for (const scope of scopes) {
+      const onReplace = (route: RouteDefinition, existing: RouteDefinition, path: string) => {
+        diagnosticsByScope.get(scope)!.push({ type: 'override', scope, reason: `override of "${path}" from @${existing.scope}`, files: [route.file, existing.file] })
+      }
+      let routes: RouteDefinition[] = []
+      for (const base of getExtendedScopes(scope, extendsMap)) {
+        routes = mergeRoutes(routes, structuredClone(ownRoutesByScope.get(base)!), onReplace)
+      }
+      routesByScope.set(scope, mergeRoutes(routes, ownRoutesByScope.get(scope)!, onReplace))
+      foldersByScope.set(scope, [...getExtendedScopes(scope, extendsMap), scope].flatMap(scope => {
+        return pagesInfos.flatMap(({ path }) => foldersByDir.get(path) || []).filter(folder => folder.scope === scope)
+      }))
+    }
+
+    // remove empty scopes (always keeping global routes!) and check for conflicts
+    for (const scope of scopes) {
+      let routes = routesByScope.get(scope)!
+      if (onRoutes) {
+        routes = await onRoutes(scope, routes) || routes
+        routesByScope.set(scope, routes)
+      }
+      if (routes.length === 0 && scope !== 'global') {
+        routesByScope.delete(scope)
+        foldersByScope.delete(scope)
+        if (!diagnosticsByScope.get(scope)!.length) {
+          diagnosticsByScope.delete(scope)
+        }
+        continue
+      }
+
+      // scope names are used in module ids and generated code
+      const reason = validateScope(scope)
+      if (reason) {
+        routesByScope.delete(scope)
+        foldersByScope.delete(scope)
+        diagnosticsByScope.get(scope)!.push({ type: 'error', scope, reason, files: [routes[0].file] })
+        continue
+      }
+
+      diagnosticsByScope.get(scope)!.push(
+        ...getRouteConflicts(scope, routes, driver.parentFile),
+        ...getRedirectDiagnostics(scope, routes),
+      )
+    }
+
+    return scopes
+  }
+
+  // ---------------------------------------------------------------------------------------------------------------
+  // api
+  // ---------------------------------------------------------------------------------------------------------------
+
+  /**
+   * Scan all source folders, and build routes for all scopes
+   */
+  async function scan (): Promise<Set<string>> {
+    pagesInfos = await findPagesDirs()
+    layouts = await findLayouts()
+    filesByDir.clear()
+    routesByDir.clear()
+    optionsByFile.clear()
+    folderMetaByFile.clear()
+    foldersByDir.clear()
+    foldersByScope.clear()
+    redirectsByDir.clear()
+    errorsByDir.clear()
+    devRoutesByDir.clear()
+    routesByScope.clear()
+    diagnosticsByScope.clear()
+
+    const scopes = new Set(['global'])
+    for (const info of pagesInfos) {
+      for (const scope of await buildDir(info)) {
+        scopes.add(scope)
+      }
+    }
+    return mergeScopes(scopes)
+  }
+
+  /**
+   * Update routes following a file system event, returning the scopes which were rebuilt
+   */
+  async function update (event: PagesEvent, path: string): Promise<Set<string>> {
+    const scopes: Set<string> = new Set()
+
+    // named layouts, which pages in any pages folder may use
+    if (sourceDirs.some(dir => (path + '/').startsWith(join(dir, 'layouts') + '/'))) {
+      if (event !== 'change') {
+        layouts = await findLayouts()
+        for (const info of pagesInfos) {
+          for (const scope of await buildDir(info)) {
+            scopes.add(scope)
+          }
+        }
+      }
+      return mergeScopes(scopes)
+    }
+
+    // pages folders containing the path
+    const infos = pagesInfos.filter(info => path.startsWith(info.path + '/'))
+
+    // files
+    if (event === 'add' || event === 'unlink' || event === 'change') {
+      for (const info of infos) {
+        // redirects files
+        if (dirname(path) === info.path && redirectsFiles.includes(basename(path))) {
+          redirectsByDir.delete(info.path)
+          for (const scope of await buildDir(info)) {
+            scopes.add(scope)
+          }
+          continue
+        }
+
+        if (!isPageFile(relative(info.path, path), driver.extensions, filter, specialFiles)) {
+          continue
+        }
+
+        // only rebuild changed files if their route options changed
+        folderMetaByFile.delete(path)
+        if (event === 'change' && basename(path) !== folderMetaFile) {
+          const options = await readPageOptions(path).catch((error: Error) => ({ error: error.message }))
+          if (JSON.stringify(options) === JSON.stringify(optionsByFile.get(path))) {
+            continue
+          }
+        }
+
+        // update cached files
+        const files = (filesByDir.get(info.path) || []).filter(file => file !== path)
+        if (event !== 'unlink') {
+          files.push(path)
+        }
+        filesByDir.set(info.path, files)
+        optionsByFile.delete(path)
+
+        // rebuild
+        for (const scope of await buildDir(info)) {
+          scopes.add(scope)
+        }
+      }
+    }
+
+    // folders within pages folders
+    else if (infos.length) {
+      for (const info of infos) {
+        if (event === 'unlinkDir') {
+          filesByDir.set(info.path, (filesByDir.get(info.path) || []).filter(file => !file.startsWith(path + '/')))
+        }
+        else {
+          filesByDir.delete(info.path)
+        }
+        for (const scope of await buildDir(info)) {
+          scopes.add(scope)
+        }
+      }
+    }
+
+    // other folders, which may add or remove pages folders
+    else {
+      const newInfos = await findPagesDirs()
+      const added = newInfos.filter(info => !pagesInfos.some(({ path }) => path === info.path))
+      const removed = pagesInfos.filter(info => !newInfos.some(({ path }) => path === info.path))
+      pagesInfos = newInfos
+
+      for (const info of removed) {
+        scopes.add(info.scope)
+        for (const route of routesByDir.get(info.path) || []) {
+          scopes.add(route.scope)
+        }
+        filesByDir.delete(info.path)
+        for (const error of errorsByDir.get(info.path) || []) {
+          scopes.add(error.scope)
+        }
+        routesByDir.delete(info.path)
+        foldersByDir.delete(info.path)
+        redirectsByDir.delete(info.path)
+        errorsByDir.delete(info.path)
+        devRoutesByDir.delete(info.path)
+      }
+
+      for (const info of added) {
+        for (const scope of await buildDir(info)) {
+          scopes.add(scope)
+        }
+      }
+    }
+
+    return mergeScopes(scopes)
+  }
+
+  return {
+    sourceDirs,
+    routesByScope,
+    foldersByScope,
+
+    get pagesInfos () {
+      return pagesInfos
+    },
+
+    get diagnostics () {
+      return Array.from(diagnosticsByScope.values()).flat()
+    },
+
+    get devRoutesRemoved () {
+      return Array.from(devRoutesByDir.values()).reduce((total, count) => total + count, 0)
+    },
+
+    scan,
+    update,
+  }
+}
+
+export type PagesScanner = ReturnType<typeof createPagesScanner>
@@ -0,0 +1,67 @@
+/**
+ * Characters allowed in scope names, which are used in virtual module ids and generated code
+ */
+const scopeNameRegex = /^[a-zA-Z\d_$][\w$.-]*$/
+
+/**
+ * Words which can't be used as identifiers in ES modules
+ */
+const reservedWords = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements', 'import',
+  'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public', 'return',
+  'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+])
+
+/**
+ * Resolve a scope name using the scopes option, i.e. { 'side-panel': 'sidepanel' }
+ */
+export function resolveScope (scope: string, aliases: Record<string, string> = {}) {
+  return aliases[scope] ?? scope
+}
+
+/**
+ * Validate a scope name, returning the reason it's invalid, if it is
+ */
+export function validateScope (scope: string): string | undefined {
+  if (!scopeNameRegex.test(scope)) {
+    return `invalid scope name "${scope}": scope names must start with a letter or number, and may only contain letters, numbers, ".", "-", "_" and "$"`
+  }
+}
+
+/**
+ * Convert scope names to unique, valid JavaScript identifiers, i.e. side-panel -> sidePanel, overlay.content -> overlayContent
+ */
+export function scopesToIdentifiers (scopes: string[]): Map<string, string> {
+  const identifiers: Map<string, string> = new Map()
+  const used: Set<string> = new Set()
+  for (const scope of scopes) {
+    let identifier = scope.replace(/[.-]+(\w)?/g, (_, char = '') => char.toUpperCase())
+    if (/^\d/.test(identifier) || reservedWords.has(identifier)) {
+      identifier = '_' + identifier
+    }
+    let unique = identifier
+    for (let index = 2; used.has(unique); index++) {
+      unique = `${identifier}${index}`
+    }
+    used.add(unique)
+    identifiers.set(scope, unique)
+  }
+  return identifiers
+}
+
+/**
+ * Get the scopes a scope extends, including those they extend, in order of precedence (lowest first)
+ *
+ * Use a '*' key for scopes without their own entry, i.e. { '*': 'global' }
+ */
+export function getExtendedScopes (scope: string, extendsMap: Record<string, string | string[]> = {}, visited: Set<string> = new Set([scope])): string[] {
+  const bases = extendsMap[scope] ?? extendsMap['*'] ?? []
+  return [bases].flat().flatMap(base => {
+    if (visited.has(base)) {
+      return []
+    }
+    visited.add(base)
+    return [...getExtendedScopes(base, extendsMap, visited), base]
+  })
+}
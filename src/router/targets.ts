@@ -0,0 +1,67 @@
+/**
+ * Target browser and manifest version to build routes for
+ */
+export interface PagesTarget {
+  browser: string
+  manifestVersion: 2 | 3
+}
+
+/**
+ * Browser names recognised as file suffixes, in addition to the target browser
+ */
+export const knownBrowsers = ['chrome', 'firefox', 'safari', 'edge', 'opera']
+
+/**
+ * Parse a file path's target suffixes, i.e. users/settings.firefox.mv2.vue -> users/settings.vue, firefox, 2
+ */
+export function parseTargetPath (path: string, target: PagesTarget) {
+  const browsers: string[] = []
+  const versions: number[] = []
+  const names = Array.from(new Set([...knownBrowsers, target.browser]))
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+
+  // suffixes must be in the file name, and followed by another suffix or the extension
+  const regex = new RegExp(`\\.(?:mv([23])|(${names.join('|')}))(?=\\.[^/]*$)`, 'g')
+  const base = path.replace(regex, (_, version, browser) => {
+    if (version) {
+      versions.push(Number(version))
+    }
+    else {
+      browsers.push(browser)
+    }
+    return ''
+  })
+  return { path: base, browsers, versions }
+}
+
+/**
+ * Test if a page's include or exclude list matches the target, i.e. ['firefox', 'mv2']
+ */
+export function matchesTarget (values: string[], target: PagesTarget) {
+  return values.includes(target.browser) || values.includes(`mv${target.manifestVersion}`)
+}
+
+/**
+ * Filter files to those for the target, replacing files with their most specific variant
+ *
+ * Browser suffixes take precedence over manifest version suffixes, i.e. for Firefox MV2, settings.firefox.vue is used
+ * rather than settings.mv2.vue, which is used rather than settings.vue
+ */
+export function filterTargetFiles (files: string[], target: PagesTarget): string[] {
+  const variants: Map<string, { file: string, rank: number }> = new Map()
+  for (const file of files) {
+    const { path, browsers, versions } = parseTargetPath(file, target)
+    if (browsers.length && !browsers.includes(target.browser)) {
+      continue
+    }
+    if (versions.length && !versions.includes(target.manifestVersion)) {
+      continue
+    }
+    const rank = (browsers.length ? 2 : 0) + (versions.length ? 1 : 0)
+    const existing = variants.get(path)
+    if (!existing || rank > existing.rank) {
+      variants.set(path, { file, rank })
+    }
+  }
+  return Array.from(variants.values()).map(variant => variant.file)
+}